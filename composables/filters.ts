@@ -29,6 +29,21 @@ export const SUNNYVALE_ID = 'Sunnyvale';
 // Santa Cruz County Cities.
 export const SANTA_CRUZ_ID = 'Santa Cruz';
 
+// Maps each city filter to the county it is grouped under in the filter modal.
+export const CITY_TO_COUNTY: { [city: string]: string } = {
+	[ALL_CITIES_IN_MARIN_COUNTY_ID]: MARIN_COUNTY_ID,
+	[SAN_FRANCISCO_ID]: SF_SAN_MATEO_COUNTY_ID,
+	[OTHERS_IN_SF_SAN_MATEO_COUNTY_ID]: SF_SAN_MATEO_COUNTY_ID,
+	[OAKLAND_ID]: ALAMEDA_COUNTY_ID,
+	[BERKELEY_ID]: ALAMEDA_COUNTY_ID,
+	[OTHERS_IN_ALAMEDA_COUNTY_ID]: ALAMEDA_COUNTY_ID,
+	[SAN_JOSE_ID]: SANTA_CLARA_COUNTY_ID,
+	[SUNNYVALE_ID]: SANTA_CLARA_COUNTY_ID,
+	[OTHERS_IN_SANTA_CLARA_COUNTY_ID]: SANTA_CLARA_COUNTY_ID,
+	[SANTA_CRUZ_ID]: SANTA_CRUZ_COUNTY_ID,
+	[OTHERS_IN_SANTA_CRUZ_COUNTY_ID]: SANTA_CRUZ_COUNTY_ID,
+};
+
 const default_value = true;
 
 // Note: cannot use LocalStorage due to SSR not having LocalStorage. Using LocalStorage would thus cause a hydration mismatch.
@@ -0,0 +1,2 @@
+// ical.js does not ship with type declarations.
+declare module 'ical.js';
@@ -26,13 +26,9 @@ export default defineNuxtConfig({
 			route: '',
 			throwError: false // optional,
 		},
-		allowedMethodsRestricter: {
-			value: [
-				'GET',
-				// 'POST', // To resolve HTTP 405 errors and allow POST requests to hit the scrape endpoints (at time of writing this would allow anyone to trigger an Instagram scrape, using API rate limit time!), uncomment this line
-			],
-			route: '',
-		},
+		// Methods are restricted per route by `server/middleware/allowed-methods.ts` instead, so that admins can POST to the
+		// scrape and admin endpoints.
+		allowedMethodsRestricter: false,
 		corsHandler: {
 			value: {
 				origin: '*',
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "EventCluster" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_UrlEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "sourceId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "extendedProps" TEXT,
+    "clusterId" INTEGER,
+    "clusterPinned" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "UrlEvent_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "EventCluster" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "UrlEvent_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "UrlSource" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_UrlEvent" ("createdAt", "end", "extendedProps", "id", "sourceId", "start", "title", "url") SELECT "createdAt", "end", "extendedProps", "id", "sourceId", "start", "title", "url" FROM "UrlEvent";
+DROP TABLE "UrlEvent";
+ALTER TABLE "new_UrlEvent" RENAME TO "UrlEvent";
+CREATE UNIQUE INDEX "UrlEvent_url_key" ON "UrlEvent"("url");
+CREATE INDEX "UrlEvent_clusterId_idx" ON "UrlEvent"("clusterId");
+CREATE TABLE "new_InstagramEvent" (
+    "postID" TEXT NOT NULL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "url" TEXT NOT NULL,
+    "organizerId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clusterId" INTEGER,
+    "clusterPinned" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "InstagramEvent_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "InstagramEventOrganizer" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "InstagramEvent_postID_fkey" FOREIGN KEY ("postID") REFERENCES "InstagramPost" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "InstagramEvent_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "EventCluster" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_InstagramEvent" ("createdAt", "end", "organizerId", "postID", "start", "title", "url") SELECT "createdAt", "end", "organizerId", "postID", "start", "title", "url" FROM "InstagramEvent";
+DROP TABLE "InstagramEvent";
+ALTER TABLE "new_InstagramEvent" RENAME TO "InstagramEvent";
+CREATE INDEX "InstagramEvent_organizerId_idx" ON "InstagramEvent"("organizerId");
+CREATE INDEX "InstagramEvent_clusterId_idx" ON "InstagramEvent"("clusterId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_UrlEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "sourceId" INTEGER NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "extendedProps" TEXT,
+    "clusterId" INTEGER,
+    "clusterPinned" BOOLEAN NOT NULL DEFAULT false,
+    CONSTRAINT "UrlEvent_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "EventCluster" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "UrlEvent_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "UrlSource" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+-- URLs were unique until now, so they work as external IDs for existing events. `persistNewEvents` replaces them with
+-- the scrapers' own IDs the next time that each event is scraped.
+INSERT INTO "new_UrlEvent" ("clusterId", "clusterPinned", "createdAt", "end", "extendedProps", "externalId", "id", "sourceId", "start", "title", "url") SELECT "clusterId", "clusterPinned", "createdAt", "end", "extendedProps", "url", "id", "sourceId", "start", "title", "url" FROM "UrlEvent";
+DROP TABLE "UrlEvent";
+ALTER TABLE "new_UrlEvent" RENAME TO "UrlEvent";
+CREATE INDEX "UrlEvent_clusterId_idx" ON "UrlEvent"("clusterId");
+CREATE UNIQUE INDEX "UrlEvent_sourceId_externalId_key" ON "UrlEvent"("sourceId", "externalId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
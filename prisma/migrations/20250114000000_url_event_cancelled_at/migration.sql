@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UrlEvent" ADD COLUMN "cancelledAt" DATETIME;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ScrapeRun" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "urlSourceId" INTEGER,
+    "instagramOrganizerId" INTEGER,
+    "startedAt" DATETIME NOT NULL,
+    "finishedAt" DATETIME NOT NULL,
+    "httpStatus" INTEGER,
+    "notModified" BOOLEAN NOT NULL DEFAULT false,
+    "eventsFound" INTEGER NOT NULL DEFAULT 0,
+    "eventsNew" INTEGER NOT NULL DEFAULT 0,
+    "eventsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "eventsCancelled" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "errorStack" TEXT,
+    CONSTRAINT "ScrapeRun_urlSourceId_fkey" FOREIGN KEY ("urlSourceId") REFERENCES "UrlSource" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ScrapeRun_instagramOrganizerId_fkey" FOREIGN KEY ("instagramOrganizerId") REFERENCES "InstagramEventOrganizer" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ScrapeRun_urlSourceId_startedAt_idx" ON "ScrapeRun"("urlSourceId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ScrapeRun_instagramOrganizerId_startedAt_idx" ON "ScrapeRun"("instagramOrganizerId", "startedAt");
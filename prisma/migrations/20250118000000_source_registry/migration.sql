@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "UrlSource" ADD COLUMN "disabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "InstagramEventOrganizer" ADD COLUMN "name" TEXT;
+ALTER TABLE "InstagramEventOrganizer" ADD COLUMN "disabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UrlSource_sourceType_url_key" ON "UrlSource"("sourceType", "url");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "SubmittedEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedAt" DATETIME,
+    "rejectionReason" TEXT,
+    "title" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "url" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "organizer" TEXT,
+    "venueName" TEXT,
+    "venueAddress" TEXT,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ipHash" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SubmittedEventImage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "eventID" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "data" BLOB NOT NULL,
+    CONSTRAINT "SubmittedEventImage_eventID_fkey" FOREIGN KEY ("eventID") REFERENCES "SubmittedEvent" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SubmittedEvent_status_start_idx" ON "SubmittedEvent"("status", "start");
+
+-- CreateIndex
+CREATE INDEX "SubmittedEvent_ipHash_createdAt_idx" ON "SubmittedEvent"("ipHash", "createdAt");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "SourceSubmission" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedAt" DATETIME,
+    "rejectionReason" TEXT,
+    "kind" TEXT NOT NULL,
+    "sourceType" TEXT,
+    "url" TEXT,
+    "sourceID" TEXT,
+    "username" TEXT,
+    "name" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "contact" TEXT,
+    "notes" TEXT,
+    "previewEventCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ipHash" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "SourceSubmission_status_createdAt_idx" ON "SourceSubmission"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SourceSubmission_ipHash_createdAt_idx" ON "SourceSubmission"("ipHash", "createdAt");
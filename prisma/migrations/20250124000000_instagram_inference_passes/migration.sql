@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "InstagramPost" ADD COLUMN "initialInference" TEXT;
+ALTER TABLE "InstagramPost" ADD COLUMN "repairedInference" TEXT;
@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_InstagramEvent" (
+    "postID" TEXT NOT NULL,
+    "index" INTEGER NOT NULL DEFAULT 0,
+    "title" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "url" TEXT NOT NULL,
+    "organizerId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clusterId" INTEGER,
+    "clusterPinned" BOOLEAN NOT NULL DEFAULT false,
+
+    PRIMARY KEY ("postID", "index"),
+    CONSTRAINT "InstagramEvent_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "InstagramEventOrganizer" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "InstagramEvent_postID_fkey" FOREIGN KEY ("postID") REFERENCES "InstagramPost" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "InstagramEvent_clusterId_fkey" FOREIGN KEY ("clusterId") REFERENCES "EventCluster" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_InstagramEvent" ("clusterId", "clusterPinned", "createdAt", "end", "organizerId", "postID", "start", "title", "url") SELECT "clusterId", "clusterPinned", "createdAt", "end", "organizerId", "postID", "start", "title", "url" FROM "InstagramEvent";
+DROP TABLE "InstagramEvent";
+ALTER TABLE "new_InstagramEvent" RENAME TO "InstagramEvent";
+CREATE INDEX "InstagramEvent_organizerId_idx" ON "InstagramEvent"("organizerId");
+CREATE INDEX "InstagramEvent_clusterId_idx" ON "InstagramEvent"("clusterId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
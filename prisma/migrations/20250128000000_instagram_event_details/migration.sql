@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "InstagramEvent" ADD COLUMN "venueName" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "venueAddress" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "price" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "ticketUrl" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "ageRestriction" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "description" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "InstagramPost" ADD COLUMN "ocrText" TEXT;
+ALTER TABLE "InstagramPost" ADD COLUMN "reviewStatus" TEXT;
+ALTER TABLE "InstagramPost" ADD COLUMN "reviewReasons" TEXT;
+ALTER TABLE "InstagramPost" ADD COLUMN "confidence" REAL;
+ALTER TABLE "InstagramPost" ADD COLUMN "reviewedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "InstagramPost_reviewStatus_idx" ON "InstagramPost"("reviewStatus");
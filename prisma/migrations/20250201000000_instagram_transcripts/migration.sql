@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "InstagramImage" ADD COLUMN "ocrText" TEXT;
+ALTER TABLE "InstagramImage" ADD COLUMN "ocrAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "InstagramInferenceAttempt" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "postID" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pass" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "messages" TEXT NOT NULL,
+    "reply" TEXT,
+    "issues" TEXT,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "totalTokens" INTEGER,
+    CONSTRAINT "InstagramInferenceAttempt_postID_fkey" FOREIGN KEY ("postID") REFERENCES "InstagramPost" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InstagramInferenceAttempt_postID_idx" ON "InstagramInferenceAttempt"("postID");
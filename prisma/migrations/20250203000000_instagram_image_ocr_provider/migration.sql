@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "InstagramImage" ADD COLUMN "ocrProvider" TEXT;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "InstagramPost" ADD COLUMN "extractionPromptVersion" INTEGER;
+ALTER TABLE "InstagramPost" ADD COLUMN "extractionModel" TEXT;
+ALTER TABLE "InstagramEvent" ADD COLUMN "extractionPromptVersion" INTEGER;
+ALTER TABLE "InstagramEvent" ADD COLUMN "extractionModel" TEXT;
+
+-- CreateTable
+CREATE TABLE "InstagramReextraction" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "committedAt" DATETIME,
+    "filter" TEXT NOT NULL,
+    "promptVersion" INTEGER NOT NULL,
+    "model" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "InstagramReextractionPost" (
+    "reextractionId" INTEGER NOT NULL,
+    "postID" TEXT NOT NULL,
+    "result" TEXT,
+    "preview" TEXT NOT NULL,
+
+    PRIMARY KEY ("reextractionId", "postID"),
+    CONSTRAINT "InstagramReextractionPost_reextractionId_fkey" FOREIGN KEY ("reextractionId") REFERENCES "InstagramReextraction" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "InstagramReextractionPost_postID_fkey" FOREIGN KEY ("postID") REFERENCES "InstagramPost" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InstagramReextractionPost_postID_idx" ON "InstagramReextractionPost"("postID");
@@ -0,0 +1,43 @@
+#!/bin/bash
+
+# Shows what a scraper finds without storing anything, see `server/api/admin/sources/preview.post.ts`.
+#
+#   scripts/preview_scrape.sh <source ID>
+#   scripts/preview_scrape.sh <scraper type> <url> [scraper-specific source ID]
+#
+# Needs ADMIN_TOKEN, and BASE_URL if the server isn't running on http://localhost:3000.
+
+base_url=${BASE_URL:-http://localhost:3000}
+
+if [[ -z "$ADMIN_TOKEN" ]]
+then
+  echo "ADMIN_TOKEN must be set" >&2
+  exit 1
+fi
+
+if [[ $# -eq 1 ]]
+then
+  body=$(jq -n --argjson id "$1" '{sourceId: $id}')
+elif [[ $# -eq 2 || $# -eq 3 ]]
+then
+  body=$(jq -n --arg type "$1" --arg url "$2" --arg sourceID "$3" '{sourceType: $type, url: $url} + (if $sourceID == "" then {} else {sourceID: $sourceID} end)')
+else
+  echo "Usage: $0 <source ID> | <scraper type> <url> [scraper-specific source ID]" >&2
+  exit 1
+fi
+
+response=$(curl -sS -X POST "${base_url}/api/admin/sources/preview" \
+  -H "Authorization: Bearer ${ADMIN_TOKEN}" \
+  -H "Content-Type: application/json" \
+  -d "$body")
+
+# Errors don't have events, so they're printed as they are.
+if [[ $(echo "$response" | jq -r 'has("events")') == "true" ]]
+then
+  echo "$response" | jq '.events'
+  echo "$response" | jq -r '"\(.events | length) events, \(.warnings | length) warnings"' >&2
+  echo "$response" | jq -r '.warnings[] | "  #\(.index) \(.title // .externalId // ""): \(.message)"' >&2
+else
+  echo "$response" | jq . >&2
+  exit 1
+fi
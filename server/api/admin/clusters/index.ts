@@ -0,0 +1,25 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchClusters } from '~~/server/utils/dedup';
+import { getEventFilter } from '~~/server/utils/event-filters';
+
+const logger = mainLogger.child({ provider: 'dedup' });
+
+// Lists the events that have been merged together, so that bad merges can be found and split. Takes optional `start`
+// and `end` query parameters.
+export default defineEventHandler(async (event) => {
+	const filter = getEventFilter(event);
+
+	try {
+		const body = await fetchClusters(filter.start, filter.end);
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch clusters');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -0,0 +1,11 @@
+import { forceMergeEvents, readEventRefs } from '~~/server/utils/dedup';
+
+// Merges the events in the body, `{ "events": ["url-event-12", "instagram-event-..."] }`, into one, even if they
+// weren't detected as duplicates.
+export default defineEventHandler(async event => {
+	const refs = await readEventRefs(event);
+
+	const clusterId = await forceMergeEvents(refs);
+
+	return { clusterId };
+});
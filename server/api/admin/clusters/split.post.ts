@@ -0,0 +1,11 @@
+import { readEventRefs, splitEvents } from '~~/server/utils/dedup';
+
+// Un-merges the events in the body, `{ "events": ["url-event-12"] }`, from the events that they were merged with. They
+// won't be merged automatically again.
+export default defineEventHandler(async event => {
+	const refs = await readEventRefs(event);
+
+	await splitEvents(refs);
+
+	return { events: refs.length };
+});
@@ -0,0 +1,21 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchSourceHealth } from '~~/server/utils/scrape-runs';
+
+const logger = mainLogger.child({ provider: 'scrape-runs' });
+
+// The recent scrape history of every URL source and Instagram organizer, see `pages/admin/index.vue`.
+export default defineEventHandler(async (event) => {
+	try {
+		const body = await fetchSourceHealth();
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch source health');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -0,0 +1,12 @@
+import { fetchInstagramPostHistory } from '~~/server/utils/instagram-history';
+import { getInstagramPostIdParam } from '~~/server/utils/instagram-review';
+
+// The OCR text of the post's images and every request made to the language model about it, to find out why a post was
+// misread.
+export default defineEventHandler(async event => {
+	const postID = getInstagramPostIdParam(event);
+
+	return {
+		body: await fetchInstagramPostHistory(postID),
+	};
+});
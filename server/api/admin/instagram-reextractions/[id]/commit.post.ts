@@ -0,0 +1,17 @@
+import { commitInstagramReextraction, getReextractionIdParam } from '~~/server/utils/instagram-reextraction';
+
+// Replaces the events of the re-extracted posts, or only of the posts in the `postIDs` list of the body.
+export default defineEventHandler(async event => {
+	const id = getReextractionIdParam(event);
+	const body = await readBody(event);
+
+	const postIDs = body?.postIDs ?? null;
+	if (postIDs !== null && (!Array.isArray(postIDs) || !postIDs.every(postID => typeof postID === 'string'))) {
+		throw createError({
+			statusCode: 400,
+			message: 'postIDs must be a list of post IDs',
+		});
+	}
+
+	return { body: await commitInstagramReextraction(id, postIDs) };
+});
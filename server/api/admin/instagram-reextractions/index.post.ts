@@ -0,0 +1,9 @@
+import { createInstagramReextraction, parseReextractionFilter } from '~~/server/utils/instagram-reextraction';
+
+// Extracts the posts matching the filter in the body again, an `InstagramReextractionFilter`, and returns how their
+// events would change. Nothing changes until the re-extraction is committed.
+export default defineEventHandler(async event => {
+	const filter = parseReextractionFilter(await readBody(event));
+
+	return { body: await createInstagramReextraction(filter) };
+});
@@ -0,0 +1,21 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchInstagramReextractions } from '~~/server/utils/instagram-reextraction';
+
+const logger = mainLogger.child({ provider: 'instagram-reextraction' });
+
+// The latest re-extractions, see `pages/admin/instagram-reextraction.vue`.
+export default defineEventHandler(async () => {
+	try {
+		const body = await fetchInstagramReextractions();
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch Instagram re-extractions');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
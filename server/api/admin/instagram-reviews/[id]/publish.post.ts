@@ -0,0 +1,10 @@
+import { getInstagramPostIdParam, publishInstagramReview } from '~~/server/utils/instagram-review';
+
+// The body lists the events of the post as corrected by the moderator, `{ "events": [{ "title": ..., "start": ... }] }`.
+export default defineEventHandler(async event => {
+	const postID = getInstagramPostIdParam(event);
+
+	await publishInstagramReview(postID, await readBody(event));
+
+	return { ok: true };
+});
@@ -0,0 +1,9 @@
+import { getInstagramPostIdParam, rejectInstagramReview } from '~~/server/utils/instagram-review';
+
+export default defineEventHandler(async event => {
+	const postID = getInstagramPostIdParam(event);
+
+	await rejectInstagramReview(postID);
+
+	return { ok: true };
+});
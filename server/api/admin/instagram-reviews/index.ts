@@ -0,0 +1,23 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchInstagramReviews, parseInstagramReviewStatus } from '~~/server/utils/instagram-review';
+
+const logger = mainLogger.child({ provider: 'instagram-review' });
+
+// The Instagram posts with the review `status` query parameter, pending ones by default. See `pages/admin/instagram.vue`.
+export default defineEventHandler(async (event) => {
+	const status = parseInstagramReviewStatus(getQuery(event).status ?? 'pending');
+
+	try {
+		const body = await fetchInstagramReviews(status);
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch Instagram reviews');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -0,0 +1,16 @@
+import { logIn } from '~~/server/utils/admin';
+
+// Starts an admin session for the browser, the body is `{ "token": "<ADMIN_TOKEN>" }`.
+export default defineEventHandler(async event => {
+	const body = await readBody(event);
+	if (typeof body?.token !== 'string') {
+		throw createError({
+			statusCode: 400,
+			message: 'Expected a body of the form { "token": "..." }',
+		});
+	}
+
+	await logIn(event, body.token);
+
+	return { ok: true };
+});
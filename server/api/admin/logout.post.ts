@@ -0,0 +1,7 @@
+import { logOut } from '~~/server/utils/admin';
+
+export default defineEventHandler(async event => {
+	await logOut(event);
+
+	return { ok: true };
+});
@@ -0,0 +1,9 @@
+import { approveSourceSubmission } from '~~/server/utils/source-submissions';
+import { getSubmissionIdParam } from '~~/server/utils/submissions';
+
+// Adds the submitted source to the scraped sources, where it can be edited like any other.
+export default defineEventHandler(async event => {
+	await approveSourceSubmission(getSubmissionIdParam(event));
+
+	return { ok: true };
+});
@@ -0,0 +1,24 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchSourceSubmissions } from '~~/server/utils/source-submissions';
+import { parseSubmissionStatus } from '~~/server/utils/submissions';
+
+const logger = mainLogger.child({ provider: 'source-submissions' });
+
+// The submitted sources with the `status` query parameter, pending ones by default. See `pages/admin/sources.vue`.
+export default defineEventHandler(async (event) => {
+	const status = parseSubmissionStatus(getQuery(event).status ?? 'pending');
+
+	try {
+		const body = await fetchSourceSubmissions(status);
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch source submissions');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -0,0 +1,10 @@
+import { exportSources } from '~~/server/utils/source-registry';
+
+// Downloads every source in the format that `/api/admin/sources/import` accepts.
+export default defineEventHandler(async event => {
+	const sources = await exportSources();
+
+	setResponseHeader(event, 'Content-Disposition', 'attachment; filename="event_sources.json"');
+
+	return sources;
+});
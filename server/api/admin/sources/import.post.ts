@@ -0,0 +1,28 @@
+import { importSources } from '~~/server/utils/source-registry';
+
+// Creates or updates the sources in an uploaded file, see `importSources`. The file is sent as the `file` field of a
+// multipart form, since JSON bodies are limited to 8KB by nuxt-security.
+export default defineEventHandler(async event => {
+	const parts = await readMultipartFormData(event);
+	const file = parts?.find(part => part.name === 'file');
+	if (!file) {
+		throw createError({
+			statusCode: 400,
+			message: 'Expected a multipart form with a file field',
+		});
+	}
+
+	let json;
+	try {
+		json = JSON.parse(file.data.toString('utf8'));
+	} catch (e: any) {
+		throw createError({
+			statusCode: 400,
+			message: `The file is not valid JSON: ${e.message}`,
+		});
+	}
+
+	const counts = await importSources(json);
+
+	return counts;
+});
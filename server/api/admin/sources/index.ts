@@ -0,0 +1,21 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchSourceRegistry } from '~~/server/utils/source-registry';
+
+const logger = mainLogger.child({ provider: 'source-registry' });
+
+// Every URL source and Instagram organizer, see `pages/admin/sources.vue`.
+export default defineEventHandler(async (event) => {
+	try {
+		const body = await fetchSourceRegistry();
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch sources');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
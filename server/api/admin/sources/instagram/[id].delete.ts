@@ -0,0 +1,9 @@
+import { deleteInstagramOrganizer, getSourceIdParam } from '~~/server/utils/source-registry';
+
+export default defineEventHandler(async event => {
+	const id = getSourceIdParam(event);
+
+	await deleteInstagramOrganizer(id);
+
+	return { ok: true };
+});
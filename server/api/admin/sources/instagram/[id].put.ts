@@ -0,0 +1,10 @@
+import { getSourceIdParam, parseInstagramOrganizerSettings, updateInstagramOrganizer } from '~~/server/utils/source-registry';
+
+export default defineEventHandler(async event => {
+	const id = getSourceIdParam(event);
+	const settings = parseInstagramOrganizerSettings(await readBody(event));
+
+	const organizer = await updateInstagramOrganizer(id, settings);
+
+	return { body: organizer };
+});
@@ -0,0 +1,10 @@
+import { createInstagramOrganizer, parseInstagramOrganizerSettings } from '~~/server/utils/source-registry';
+
+// Adds an Instagram organizer, the body is an `InstagramOrganizerSettings`.
+export default defineEventHandler(async event => {
+	const settings = parseInstagramOrganizerSettings(await readBody(event));
+
+	const organizer = await createInstagramOrganizer(settings);
+
+	return { body: organizer };
+});
@@ -0,0 +1,21 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { previewScrape, readScrapePreviewSettings } from '~~/server/utils/scrape-preview';
+
+const logger = mainLogger.child({ provider: 'scrape-preview' });
+
+// Runs a scraper without storing anything, and returns the events it found along with warnings about them. The body is
+// either `{ "sourceId": 12 }` or `{ "sourceType": "ical", "url": "..." }`. See `scripts/preview_scrape.sh`.
+export default defineEventHandler(async event => {
+	const settings = await readScrapePreviewSettings(event);
+
+	try {
+		return await previewScrape(settings);
+	} catch (error: any) {
+		// The scraper's errors are what the admin wants to see, rather than our own.
+		logger.info({ settings, error: error.toString() }, 'Preview scrape failed');
+		throw createError({
+			statusCode: 502,
+			message: `Scrape failed: ${error.message}`,
+		});
+	}
+});
@@ -0,0 +1,9 @@
+import { deleteUrlSource, getSourceIdParam } from '~~/server/utils/source-registry';
+
+export default defineEventHandler(async event => {
+	const id = getSourceIdParam(event);
+
+	await deleteUrlSource(id);
+
+	return { ok: true };
+});
@@ -0,0 +1,10 @@
+import { getSourceIdParam, parseUrlSourceSettings, updateUrlSource } from '~~/server/utils/source-registry';
+
+export default defineEventHandler(async event => {
+	const id = getSourceIdParam(event);
+	const settings = parseUrlSourceSettings(await readBody(event));
+
+	const source = await updateUrlSource(id, settings);
+
+	return { body: source };
+});
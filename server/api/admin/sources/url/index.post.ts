@@ -0,0 +1,10 @@
+import { createUrlSource, parseUrlSourceSettings } from '~~/server/utils/source-registry';
+
+// Adds a URL source, the body is a `UrlSourceSettings`.
+export default defineEventHandler(async event => {
+	const settings = parseUrlSourceSettings(await readBody(event));
+
+	const source = await createUrlSource(settings);
+
+	return { body: source };
+});
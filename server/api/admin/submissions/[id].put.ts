@@ -0,0 +1,11 @@
+import { getSubmissionIdParam, parseSubmissionFields, updateSubmission } from '~~/server/utils/submissions';
+
+// Lets moderators fix up a submission, the body has the same fields as the form on `/submit`.
+export default defineEventHandler(async event => {
+	const id = getSubmissionIdParam(event);
+	const fields = parseSubmissionFields(await readBody(event) || {});
+
+	const submission = await updateSubmission(id, fields);
+
+	return { body: submission };
+});
@@ -0,0 +1,9 @@
+import { approveSubmission, getSubmissionIdParam } from '~~/server/utils/submissions';
+
+export default defineEventHandler(async event => {
+	const id = getSubmissionIdParam(event);
+
+	await approveSubmission(id);
+
+	return { ok: true };
+});
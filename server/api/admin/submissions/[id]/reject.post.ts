@@ -0,0 +1,12 @@
+import { getSubmissionIdParam, rejectSubmission } from '~~/server/utils/submissions';
+
+// The body may give a reason, `{ "reason": "..." }`, for other moderators.
+export default defineEventHandler(async event => {
+	const id = getSubmissionIdParam(event);
+	const body = await readBody(event);
+	const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : null;
+
+	await rejectSubmission(id, reason);
+
+	return { ok: true };
+});
@@ -0,0 +1,23 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchSubmissions, parseSubmissionStatus } from '~~/server/utils/submissions';
+
+const logger = mainLogger.child({ provider: 'submissions' });
+
+// The submitted events with the `status` query parameter, pending ones by default. See `pages/admin/submissions.vue`.
+export default defineEventHandler(async (event) => {
+	const status = parseSubmissionStatus(getQuery(event).status ?? 'pending');
+
+	try {
+		const body = await fetchSubmissions(status);
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch submissions');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -0,0 +1,24 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { buildAggregatedCalendar } from '~~/server/utils/ical';
+import { getEventFilter } from '~~/server/utils/event-filters';
+
+const logger = mainLogger.child({ provider: 'ical' });
+
+// Accepts `city`, `county`, `organizer` and `sourceType` query parameters so each subscriber can get a feed of just the
+// events they care about, e.g. `/api/calendar.ics?city=Oakland&city=Berkeley&organizer=El%20Rio`.
+export default defineEventHandler(async (event) => {
+	const filter = getEventFilter(event);
+
+	try {
+		const calendar = await buildAggregatedCalendar(filter);
+
+		event.node.res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+		return calendar;
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to render calendar');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
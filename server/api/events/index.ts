@@ -0,0 +1,25 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { fetchNormalizedEvents } from '~~/server/utils/events';
+import { getEventFilter } from '~~/server/utils/event-filters';
+
+const logger = mainLogger.child({ provider: 'events' });
+
+// Every event that we know about, from URL and Instagram sources alike, as a flat list of `NormalizedEvent`s. Takes the
+// same `start`, `end`, `city`, `county`, `organizer` and `sourceType` query parameters as `/api/calendar.ics`.
+export default defineEventHandler(async (event) => {
+	const filter = getEventFilter(event);
+
+	try {
+		const body = await fetchNormalizedEvents(filter);
+
+		return {
+			body
+		}
+	} catch (error: any) {
+		logger.error({ error: error.toString(), stack: error.stack }, 'Failed to fetch events');
+		throw createError({
+			statusCode: 500,
+			statusMessage: '' + error,
+		})
+	}
+});
@@ -1,12 +1,15 @@
 import { logger as mainLogger } from '~~/server/utils/logger';
-import { CityEventListing } from '~~/types';
-import { prisma } from '~~/server/utils/db';
+import { fetchInstagramEvents } from '~~/server/utils/events';
+import { getEventFilter } from '~~/server/utils/event-filters';
 
 const logger = mainLogger.child({ provider: 'instagram' });
 
+// Deprecated: Instagram events grouped by source, kept for existing clients. New code should use `/api/events`.
 export default defineEventHandler(async (event) => {
+	const filter = getEventFilter(event);
+
 	try {
-		const body = await fetchInstagramEvents();
+		const body = await fetchInstagramEvents(filter);
 
 		return {
 			body
@@ -19,37 +22,3 @@ export default defineEventHandler(async (event) => {
 		})
 	}
 });
-
-async function fetchInstagramEvents(): Promise<CityEventListing[]> {
-	const organizers = await prisma.instagramEventOrganizer.findMany({
-		include: {
-			events: {
-				include: {
-					post: {
-						include: {
-							images: {
-								select: { id: true }
-							}
-						}
-					}
-				}
-			},
-		}
-	});
-
-	const response = organizers.map(organizer => ({
-		city: organizer.city,
-		events: organizer.events.map(event => ({
-			postID: event.postID,
-			title: event.title,
-			start: event.start,
-			end: event.end,
-			url: event.url,
-			organizerID: event.organizerId,
-			createdAt: event.createdAt,
-			images: event.post.images.map(img => `/api/images/instagram/${img.id}`),
-		})),
-		organizer: organizer.username,
-	}));
-	return response;
-}
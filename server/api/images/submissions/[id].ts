@@ -0,0 +1,19 @@
+import { prisma } from "~~/server/utils/db";
+import { isAdmin } from "~~/server/utils/admin";
+
+// Images of submissions that haven't been approved are only shown to moderators.
+export default defineEventHandler(async event => {
+	const imageID = Number(getRouterParam(event, 'id'));
+	if (isNaN(imageID)) {
+		throw createError({
+			statusCode: 400,
+			message: 'id must be a valid number',
+		});
+	}
+
+	const image = await prisma.submittedEventImage.findFirst({ where: { id: imageID }, include: { event: { select: { status: true } } } });
+	if (image && (image.event.status === 'approved' || await isAdmin(event))) {
+		event.node.res.setHeader('Content-Type', image.contentType);
+		return image.data;
+	}
+});
@@ -5,5 +5,3 @@ export default defineEventHandler(async event => {
 
 	return eventCounts;
 });
-
-// TODO: require scrape token to be present for all /scrape endpoints
@@ -0,0 +1,19 @@
+import { prisma } from "~~/server/utils/db";
+import { doUrlScrapes } from "~~/server/utils/http";
+import { getSourceIdParam } from "~~/server/utils/source-registry";
+
+export default defineEventHandler(async event => {
+	const sourceId = getSourceIdParam(event);
+
+	const source = await prisma.urlSource.findUnique({ where: { id: sourceId }, select: { id: true } });
+	if (!source) {
+		throw createError({
+			statusCode: 404,
+			message: `Unknown URL source ${sourceId}`,
+		});
+	}
+
+	const eventCounts = await doUrlScrapes({ sourceId });
+
+	return eventCounts;
+});
@@ -0,0 +1,8 @@
+import { doUrlScrapes } from "~~/server/utils/http";
+
+// Scrapes every URL source, including the ones that the scheduled scrape would skip because they were scraped recently.
+export default defineEventHandler(async event => {
+	const eventCounts = await doUrlScrapes();
+
+	return eventCounts;
+});
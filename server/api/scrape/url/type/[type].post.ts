@@ -0,0 +1,16 @@
+import { doUrlScrapes, isUrlScraperType } from "~~/server/utils/http";
+
+// Scrapes every URL source of a type, e.g. `/api/scrape/url/type/eventbrite`.
+export default defineEventHandler(async event => {
+	const sourceType = getRouterParam(event, 'type') || '';
+	if (!isUrlScraperType(sourceType)) {
+		throw createError({
+			statusCode: 400,
+			message: `Unknown source type "${sourceType}"`,
+		});
+	}
+
+	const eventCounts = await doUrlScrapes({ sourceType });
+
+	return eventCounts;
+});
@@ -0,0 +1,8 @@
+import { submitSource } from '~~/server/utils/source-submissions';
+
+// Anyone can submit a calendar on `/submit-source`, it's only scraped once a moderator approved it.
+export default defineEventHandler(async event => {
+	await submitSource(event);
+
+	return { ok: true };
+});
@@ -0,0 +1,7 @@
+import { previewSource } from '~~/server/utils/source-submissions';
+
+// Shows organizers which events we'd find for `{ "input": "..." }`, the URL of their calendar, a Google Calendar ID or
+// an Instagram handle, before they submit it on `/submit-source`.
+export default defineEventHandler(async event => {
+	return await previewSource(event);
+});
@@ -0,0 +1,8 @@
+import { submitEvent } from '~~/server/utils/submissions';
+
+// Anyone can submit an event on `/submit`, it's only listed once a moderator approved it.
+export default defineEventHandler(async event => {
+	await submitEvent(event);
+
+	return { ok: true };
+});
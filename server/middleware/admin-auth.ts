@@ -0,0 +1,8 @@
+import { isAdminRoute, requireAdmin } from '~~/server/utils/admin';
+
+// Scrapes cost API quota and admin routes change what everybody sees, so both are reserved for admins.
+export default defineEventHandler(async event => {
+	if (isAdminRoute(getRequestURL(event).pathname)) {
+		await requireAdmin(event);
+	}
+});
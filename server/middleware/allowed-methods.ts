@@ -0,0 +1,22 @@
+import { ADMIN_ROUTE_PREFIXES } from '~~/server/utils/admin';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Everything is read-only, except for the admin routes, which are authenticated by `admin-auth.ts`, and event and
+// source submissions. This replaces nuxt-security's `allowedMethodsRestricter`, which can only allow methods for the
+// whole site.
+const MUTABLE_ROUTE_PREFIXES = [...ADMIN_ROUTE_PREFIXES, '/api/submissions', '/api/source-submissions'];
+
+export default defineEventHandler(event => {
+	if (SAFE_METHODS.includes(getMethod(event))) {
+		return;
+	}
+
+	const path = getRequestURL(event).pathname;
+	if (!MUTABLE_ROUTE_PREFIXES.some(prefix => path.startsWith(prefix))) {
+		throw createError({
+			statusCode: 405,
+			statusMessage: 'Method Not Allowed',
+		});
+	}
+});
@@ -1,9 +1,9 @@
-import { getOrInsertOrganizer, scrapeInstagram } from "~~/server/utils/instagram";
-import eventSourcesJSON from '~~/server/utils/event_sources.json';
+import { scrapeInstagram } from "~~/server/utils/instagram";
+import { seedSourcesIfEmpty } from "~~/server/utils/source-registry";
 import { DateTime } from "luxon";
 
 export default defineNitroPlugin(async (nitroApp) => {
-	await Promise.all(eventSourcesJSON.instagram.map(source => getOrInsertOrganizer(source)));
+	await seedSourcesIfEmpty();
 
 	// Run the instagram scrape job every 10 minutes, it skips organizers that have been updated in the past hour. It's
 	// re-run every 10 minutes so that if there were errors for any one organizer the last time it was run, it'll try
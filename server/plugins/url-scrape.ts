@@ -1,8 +1,9 @@
 import { DateTime } from "luxon";
-import { doUrlScrapes, initializeAllScrapers } from '~~/server/utils/http';
+import { doUrlScrapes } from '~~/server/utils/http';
+import { seedSourcesIfEmpty } from '~~/server/utils/source-registry';
 
 export default defineNitroPlugin(async (nitroApp) => {
-	initializeAllScrapers();
+	await seedSourcesIfEmpty();
 
 	// Run the url scrape job every 10 minutes, it skips organizers that have been updated in the past hour. It's
 	// re-run every 10 minutes so that if there were errors for any one organizer the last time it was run, it'll try
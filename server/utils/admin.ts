@@ -0,0 +1,110 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { H3Event } from 'h3';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { clientIp } from '~~/server/utils/submissions';
+
+const logger = mainLogger.child({ provider: 'admin' });
+
+// Every route under these prefixes requires an admin, see `server/middleware/admin-auth.ts`.
+export const ADMIN_ROUTE_PREFIXES = ['/api/scrape/', '/api/admin/'];
+// Admin routes that anyone may use, so that admins can log in.
+const PUBLIC_ADMIN_ROUTES = ['/api/admin/login'];
+
+const SESSION_NAME = 'bay-lgbt-admin';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+interface AdminSessionData {
+	admin?: boolean
+}
+
+export function isAdminRoute(path: string): boolean {
+	return ADMIN_ROUTE_PREFIXES.some(prefix => path.startsWith(prefix)) && !PUBLIC_ADMIN_ROUTES.includes(path);
+}
+
+function adminToken(): string {
+	const token = process.env.ADMIN_TOKEN;
+	if (!token) {
+		// Without a token nobody can be an admin, rather than everybody.
+		throw createError({
+			statusCode: 503,
+			message: 'The admin API is disabled, set ADMIN_TOKEN to enable it',
+		});
+	}
+
+	return token;
+}
+
+// Hashing both sides makes them the same length, which `timingSafeEqual` requires.
+function isAdminToken(candidate: string): boolean {
+	const expected = createHash('sha256').update(adminToken()).digest();
+	const actual = createHash('sha256').update(candidate).digest();
+
+	return timingSafeEqual(expected, actual);
+}
+
+// Sessions are sealed with a key derived from the admin token, so changing the token logs everybody out. h3 requires
+// the key to be at least 32 characters long, which the hex digest always is.
+function useAdminSession(event: H3Event) {
+	return useSession<AdminSessionData>(event, {
+		name: SESSION_NAME,
+		password: createHash('sha256').update(`session:${adminToken()}`).digest('hex'),
+		maxAge: SESSION_MAX_AGE_SECONDS,
+		cookie: {
+			sameSite: 'strict',
+			secure: !process.dev,
+		},
+	});
+}
+
+// Scripts authenticate with an `Authorization: Bearer <ADMIN_TOKEN>` header, browsers with the session cookie set by
+// `/api/admin/login`.
+export async function isAdmin(event: H3Event): Promise<boolean> {
+	if (!process.env.ADMIN_TOKEN) {
+		return false;
+	}
+
+	const authorization = getRequestHeader(event, 'authorization');
+	if (authorization) {
+		const [scheme, token] = authorization.split(' ');
+		return scheme.toLowerCase() === 'bearer' && token !== undefined && isAdminToken(token);
+	}
+
+	// Looking at the session would start one, which only admins need.
+	if (!getCookie(event, SESSION_NAME)) {
+		return false;
+	}
+
+	const session = await useAdminSession(event);
+	return session.data.admin === true;
+}
+
+export async function requireAdmin(event: H3Event) {
+	// Explains why nobody can log in.
+	adminToken();
+
+	if (!await isAdmin(event)) {
+		throw createError({
+			statusCode: 401,
+			message: 'This endpoint requires an admin token',
+		});
+	}
+}
+
+// Starts an admin session if the token is the admin token.
+export async function logIn(event: H3Event, token: string) {
+	if (!isAdminToken(token)) {
+		logger.warn({ ip: clientIp(event) }, 'Failed admin login');
+		throw createError({
+			statusCode: 401,
+			message: 'Invalid admin token',
+		});
+	}
+
+	const session = await useAdminSession(event);
+	await session.update({ admin: true });
+}
+
+export async function logOut(event: H3Event) {
+	const session = await useAdminSession(event);
+	await session.clear();
+}
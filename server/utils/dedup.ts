@@ -0,0 +1,378 @@
+import { H3Event } from 'h3';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { EventVenue, NormalizedEvent } from '~~/types';
+import { INSTAGRAM_EVENT_INCLUDE, instagramEventId, normalizeInstagramEvent, normalizeUrlEvent, URL_EVENT_INCLUDE } from '~~/server/utils/events';
+
+const logger = mainLogger.child({ provider: 'dedup' });
+
+// Events that start further apart than this are never the same event. This is generous since the times that we extract
+// from Instagram posts are often only approximate, e.g. "doors at 9" vs. the headliner's set time on Eventbrite.
+const MAX_START_DIFFERENCE_MS = 3 * 60 * 60 * 1000;
+
+// How similar two titles have to be (see `titleSimilarity`) to be considered the same event. Most Instagram events
+// don't have a venue, so we need to be stricter about the title when we can't compare venues.
+const MIN_TITLE_SIMILARITY = 0.6;
+const MIN_TITLE_SIMILARITY_AT_SAME_VENUE = 0.4;
+
+// Geocoders disagree about where exactly a building is.
+const MAX_SAME_VENUE_DISTANCE_METERS = 200;
+
+// Words that don't help tell events apart.
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'in', 'of', 'on', 'the', 'to', 'with', 'presents', 'x']);
+
+export type EventRef = { kind: 'url', id: number } | { kind: 'instagram', postID: string, index: number };
+
+// Adds each of the given events to a cluster with an event from another source that looks like the same event, if
+// there is one. Should be called with events that were just persisted.
+export async function clusterNewEvents(refs: EventRef[]) {
+	let clusteredCount = 0;
+	// One at a time, so that events found in the same scrape can be clustered with each other.
+	for (let ref of refs) {
+		try {
+			if (await clusterEvent(ref)) {
+				clusteredCount += 1;
+			}
+		} catch (e: any) {
+			logger.error({ error: e.toString(), stack: e.stack, ref }, 'Failed to cluster event');
+		}
+	}
+
+	logger.info({ eventCount: refs.length, clusteredCount }, 'Completed event deduplication');
+}
+
+async function clusterEvent(ref: EventRef): Promise<boolean> {
+	const event = await findUnpinnedEvent(ref);
+	if (!event || event.clusterId !== null) {
+		return false;
+	}
+
+	const candidates = await findCandidates(event);
+
+	let bestMatch: NormalizedEvent | null = null;
+	let bestSimilarity = 0;
+	for (let candidate of candidates) {
+		const similarity = duplicateSimilarity(event, candidate);
+		if (similarity > bestSimilarity) {
+			bestMatch = candidate;
+			bestSimilarity = similarity;
+		}
+	}
+
+	if (!bestMatch) {
+		return false;
+	}
+
+	let clusterId = bestMatch.clusterId;
+	if (clusterId === null) {
+		clusterId = (await prisma.eventCluster.create({ data: {} })).id;
+		await setCluster(parseEventRef(bestMatch.id)!, clusterId, false);
+	}
+	await setCluster(ref, clusterId, false);
+
+	logger.debug({ event: event.id, match: bestMatch.id, similarity: bestSimilarity, clusterId }, 'Clustered duplicate event');
+
+	return true;
+}
+
+async function findUnpinnedEvent(ref: EventRef): Promise<NormalizedEvent | null> {
+	if (ref.kind === 'url') {
+		const event = await prisma.urlEvent.findFirst({ where: { id: ref.id, clusterPinned: false }, include: URL_EVENT_INCLUDE });
+		return event && normalizeUrlEvent(event);
+	}
+
+	const event = await prisma.instagramEvent.findFirst({ where: { postID: ref.postID, index: ref.index, clusterPinned: false }, include: INSTAGRAM_EVENT_INCLUDE });
+	return event && normalizeInstagramEvent(event);
+}
+
+// Events from other sources that start around the same time. Events from the same source are never duplicates of each
+// other: sources list things like the individual nights of a multi-night event separately on purpose.
+async function findCandidates(event: NormalizedEvent): Promise<NormalizedEvent[]> {
+	const start = {
+		gte: new Date(event.start.getTime() - MAX_START_DIFFERENCE_MS),
+		lte: new Date(event.start.getTime() + MAX_START_DIFFERENCE_MS),
+	};
+
+	const [urlEvents, instagramEvents] = await Promise.all([
+		prisma.urlEvent.findMany({
+			where: {
+				start,
+				clusterPinned: false,
+				cancelledAt: null,
+				sourceId: event.provenance.kind === 'url' ? { not: event.provenance.sourceId } : undefined,
+			},
+			include: URL_EVENT_INCLUDE,
+		}),
+		prisma.instagramEvent.findMany({
+			where: {
+				start,
+				clusterPinned: false,
+				organizerId: event.provenance.kind === 'instagram' ? { not: event.provenance.sourceId } : undefined,
+			},
+			include: INSTAGRAM_EVENT_INCLUDE,
+		}),
+	]);
+
+	return [
+		...urlEvents.map(normalizeUrlEvent),
+		...instagramEvents.map(normalizeInstagramEvent),
+	];
+}
+
+// Returns how similar the titles of two events are if they look like the same event, or 0 if they don't.
+export function duplicateSimilarity(a: NormalizedEvent, b: NormalizedEvent): number {
+	if (Math.abs(a.start.getTime() - b.start.getTime()) > MAX_START_DIFFERENCE_MS) {
+		return 0;
+	}
+
+	const venue = compareVenues(a.venue, b.venue);
+	if (venue === 'different') {
+		return 0;
+	}
+
+	const similarity = titleSimilarity(a, b);
+	const minSimilarity = venue === 'same' ? MIN_TITLE_SIMILARITY_AT_SAME_VENUE : MIN_TITLE_SIMILARITY;
+
+	return similarity >= minSimilarity ? similarity : 0;
+}
+
+// The Sørensen–Dice coefficient of the words in the titles: 1 when they have the same words, 0 when they share none.
+export function titleSimilarity(a: NormalizedEvent, b: NormalizedEvent): number {
+	const aWords = titleWords(a);
+	const bWords = titleWords(b);
+	if (aWords.size === 0 || bWords.size === 0) {
+		return 0;
+	}
+
+	let shared = 0;
+	for (let word of aWords) {
+		if (bWords.has(word)) {
+			shared += 1;
+		}
+	}
+
+	return (2 * shared) / (aWords.size + bWords.size);
+}
+
+function titleWords(event: NormalizedEvent): Set<string> {
+	let title = event.title;
+	// Scrapers add the organizer to the title, which would otherwise make events from the same organizer look alike.
+	const suffix = ` @ ${event.organizer}`;
+	if (title.endsWith(suffix)) {
+		title = title.slice(0, -suffix.length);
+	}
+
+	const words = title
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(word => word.length > 0 && !STOP_WORDS.has(word));
+
+	return new Set(words);
+}
+
+export function compareVenues(a: EventVenue | null, b: EventVenue | null): 'same' | 'different' | 'unknown' {
+	if (!a || !b) {
+		return 'unknown';
+	}
+
+	if (a.geo && b.geo) {
+		return distanceInMeters(a.geo, b.geo) <= MAX_SAME_VENUE_DISTANCE_METERS ? 'same' : 'different';
+	}
+
+	const aStreet = normalizeStreetAddress(a.address?.streetAddress);
+	const bStreet = normalizeStreetAddress(b.address?.streetAddress);
+	if (aStreet && bStreet) {
+		return aStreet === bStreet ? 'same' : 'different';
+	}
+
+	if (a.name && b.name) {
+		const aWords = new Set(venueWords(a.name));
+		const bWords = venueWords(b.name);
+		const shared = bWords.filter(word => aWords.has(word)).length;
+		return shared > 0 && shared >= Math.min(aWords.size, bWords.length) / 2 ? 'same' : 'different';
+	}
+
+	return 'unknown';
+}
+
+function venueWords(name: string): string[] {
+	return name.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0 && !STOP_WORDS.has(word));
+}
+
+// Only compares the house number and the first word of the street, since "3158 Mission St" and "3158 Mission Street,
+// San Francisco" are the same place.
+function normalizeStreetAddress(address: string | undefined): string | null {
+	const match = address?.toLowerCase().match(/^\s*(\d+)\s+([a-z0-9]+)/);
+	return match ? `${match[1]} ${match[2]}` : null;
+}
+
+// Haversine distance, which is plenty accurate at the scale of a city.
+function distanceInMeters(a: { latitude: number, longitude: number }, b: { latitude: number, longitude: number }): number {
+	const EARTH_RADIUS_METERS = 6371000;
+	const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+	const dLatitude = toRadians(b.latitude - a.latitude);
+	const dLongitude = toRadians(b.longitude - a.longitude);
+	const h = Math.sin(dLatitude / 2) ** 2
+		+ Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLongitude / 2) ** 2;
+
+	return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// Parses a `NormalizedEvent.id`.
+export function parseEventRef(id: string): EventRef | null {
+	const urlMatch = id.match(/^url-event-(\d+)$/);
+	if (urlMatch) {
+		return { kind: 'url', id: Number(urlMatch[1]) };
+	}
+
+	// See `instagramEventId`.
+	const instagramMatch = id.match(/^instagram-event-(.+?)(?:-(\d+))?$/);
+	if (instagramMatch) {
+		return { kind: 'instagram', postID: instagramMatch[1], index: Number(instagramMatch[2] ?? 0) };
+	}
+
+	return null;
+}
+
+// Reads the `{ "events": ["url-event-12", "instagram-event-..."] }` body of the admin cluster endpoints.
+export async function readEventRefs(event: H3Event): Promise<EventRef[]> {
+	const body = await readBody(event);
+	const ids = body?.events;
+	if (!Array.isArray(ids) || ids.length === 0) {
+		throw createError({
+			statusCode: 400,
+			message: 'events must be a non-empty list of event IDs',
+		});
+	}
+
+	return ids.map(id => {
+		const ref = typeof id === 'string' ? parseEventRef(id) : null;
+		if (!ref) {
+			throw createError({
+				statusCode: 400,
+				message: `Invalid event ID "${id}"`,
+			});
+		}
+		return ref;
+	});
+}
+
+// Every cluster with at least one event overlapping [start, end), along with all of its events.
+export async function fetchClusters(start?: Date, end?: Date) {
+	const eventsWhere = {
+		start: end ? { lt: end } : undefined,
+		end: start ? { gt: start } : undefined,
+	};
+
+	const clusters = await prisma.eventCluster.findMany({
+		where: {
+			OR: [
+				{ urlEvents: { some: eventsWhere } },
+				{ instagramEvents: { some: eventsWhere } },
+			],
+		},
+		include: {
+			urlEvents: { include: URL_EVENT_INCLUDE },
+			instagramEvents: { include: INSTAGRAM_EVENT_INCLUDE },
+		},
+		orderBy: { id: 'desc' },
+	});
+
+	return clusters.map(cluster => ({
+		id: cluster.id,
+		createdAt: cluster.createdAt,
+		events: [
+			...cluster.urlEvents.map(e => ({ ...normalizeUrlEvent(e), pinned: e.clusterPinned })),
+			...cluster.instagramEvents.map(e => ({ ...normalizeInstagramEvent(e), pinned: e.clusterPinned })),
+		],
+	}));
+}
+
+async function setCluster(ref: EventRef, clusterId: number | null, pinned: boolean) {
+	const data = { clusterId, clusterPinned: pinned };
+	if (ref.kind === 'url') {
+		await prisma.urlEvent.update({ where: { id: ref.id }, data });
+	} else {
+		await prisma.instagramEvent.update({ where: { postID_index: { postID: ref.postID, index: ref.index } }, data });
+	}
+}
+
+// Deletes clusters that no longer group together more than one event.
+export async function deleteSingletonClusters(clusterIds: number[]) {
+	const clusters = await prisma.eventCluster.findMany({
+		where: { id: { in: clusterIds } },
+		include: {
+			_count: { select: { urlEvents: true, instagramEvents: true } },
+		},
+	});
+
+	for (let cluster of clusters) {
+		if (cluster._count.urlEvents + cluster._count.instagramEvents > 1) {
+			continue;
+		}
+
+		await prisma.urlEvent.updateMany({ where: { clusterId: cluster.id }, data: { clusterId: null } });
+		await prisma.instagramEvent.updateMany({ where: { clusterId: cluster.id }, data: { clusterId: null } });
+		await prisma.eventCluster.delete({ where: { id: cluster.id } });
+	}
+}
+
+async function findClusterId(ref: EventRef): Promise<number | null> {
+	const event = ref.kind === 'url'
+		? await prisma.urlEvent.findUnique({ where: { id: ref.id }, select: { clusterId: true } })
+		: await prisma.instagramEvent.findUnique({ where: { postID_index: { postID: ref.postID, index: ref.index } }, select: { clusterId: true } });
+
+	if (!event) {
+		throw createError({
+			statusCode: 404,
+			message: `Event ${ref.kind === 'url' ? `url-event-${ref.id}` : instagramEventId(ref.postID, ref.index)} does not exist`,
+		});
+	}
+
+	return event.clusterId;
+}
+
+// Admin override: puts all of the given events into a single cluster, even if they don't look alike. The events are
+// pinned so that automatic deduplication won't move them again. Returns the ID of the cluster.
+export async function forceMergeEvents(refs: EventRef[]): Promise<number> {
+	const previousClusterIds: number[] = [];
+	for (let ref of refs) {
+		const clusterId = await findClusterId(ref);
+		if (clusterId !== null) {
+			previousClusterIds.push(clusterId);
+		}
+	}
+
+	// Reuse one of the existing clusters, so that the other events already in it stay merged with these.
+	const clusterId = previousClusterIds[0] ?? (await prisma.eventCluster.create({ data: {} })).id;
+	for (let ref of refs) {
+		await setCluster(ref, clusterId, true);
+	}
+
+	await deleteSingletonClusters(previousClusterIds.filter(id => id !== clusterId));
+
+	logger.info({ refs, clusterId }, 'Force merged events');
+
+	return clusterId;
+}
+
+// Admin override: removes the given events from their clusters, and pins them so that automatic deduplication won't
+// merge them again.
+export async function splitEvents(refs: EventRef[]) {
+	const previousClusterIds: number[] = [];
+	for (let ref of refs) {
+		const clusterId = await findClusterId(ref);
+		if (clusterId !== null) {
+			previousClusterIds.push(clusterId);
+		}
+
+		await setCluster(ref, null, true);
+	}
+
+	await deleteSingletonClusters(previousClusterIds);
+
+	logger.info({ refs }, 'Split events out of their clusters');
+}
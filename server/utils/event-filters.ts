@@ -0,0 +1,91 @@
+import { H3Event } from 'h3';
+import { DateTime } from 'luxon';
+import { CITY_TO_COUNTY } from '~~/composables/filters';
+
+export interface EventFilter {
+	// Only events overlapping the range [start, end) are returned. These match the `start` and `end` parameters that
+	// FullCalendar sends to function event sources.
+	start?: Date
+	end?: Date
+	// Matched against `UrlSource.sourceCity` and `InstagramEventOrganizer.city`. Counties are expanded into their cities.
+	cities?: string[]
+	// Matched against `UrlSource.sourceName` and `InstagramEventOrganizer.username`.
+	organizers?: string[]
+	// Matched against `UrlSource.sourceType`, Instagram events use `INSTAGRAM_SOURCE_TYPE`.
+	sourceTypes?: string[]
+}
+
+// Parses the `start`, `end`, `city`, `county`, `organizer` and `sourceType` query parameters of a request into an
+// `EventFilter`. `start` and `end` are ISO 8601 dates. The others may be repeated or given as a comma-separated list;
+// values within a parameter are OR-ed together, and `city`/`county` are combined into a single list of cities.
+export function getEventFilter(event: H3Event): EventFilter {
+	const query = getQuery(event);
+
+	const filter: EventFilter = {};
+
+	if (query.start !== undefined) {
+		filter.start = queryDate(query.start, 'start');
+	}
+	if (query.end !== undefined) {
+		filter.end = queryDate(query.end, 'end');
+	}
+	if (filter.start && filter.end && filter.start > filter.end) {
+		throw createError({
+			statusCode: 400,
+			message: 'start must not be after end',
+		});
+	}
+
+	const cities = queryList(query.city);
+	const counties = queryList(query.county);
+	for (let county of counties) {
+		const countyCities = Object.keys(CITY_TO_COUNTY).filter(city => CITY_TO_COUNTY[city] === county);
+		if (countyCities.length === 0) {
+			throw createError({
+				statusCode: 400,
+				message: `Unknown county "${county}"`,
+			});
+		}
+		cities.push(...countyCities);
+	}
+	if (cities.length > 0) {
+		filter.cities = cities;
+	}
+
+	const organizers = queryList(query.organizer);
+	if (organizers.length > 0) {
+		filter.organizers = organizers;
+	}
+
+	const sourceTypes = queryList(query.sourceType);
+	if (sourceTypes.length > 0) {
+		filter.sourceTypes = sourceTypes;
+	}
+
+	return filter;
+}
+
+function queryDate(value: any, name: string): Date {
+	const date = DateTime.fromISO(String(value), { setZone: true });
+	if (!date.isValid) {
+		throw createError({
+			statusCode: 400,
+			message: `${name} must be a valid ISO 8601 date`,
+		});
+	}
+
+	return date.toJSDate();
+}
+
+function queryList(value: any): string[] {
+	if (value === undefined || value === null) {
+		return [];
+	}
+
+	const values: any[] = Array.isArray(value) ? value : [value];
+
+	return values
+		.flatMap(v => String(v).split(','))
+		.map(v => v.trim())
+		.filter(v => v.length > 0);
+}
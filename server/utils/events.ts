@@ -0,0 +1,374 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { CityEventListing, EventVenue, NormalizedEvent } from '~~/types';
+import { Prisma } from '@prisma/client';
+import { prisma } from '~~/server/utils/db';
+import { EventFilter } from '~~/server/utils/event-filters';
+
+const logger = mainLogger.child({ provider: 'events' });
+
+export const INSTAGRAM_SOURCE_TYPE = 'instagram';
+export const SUBMISSION_SOURCE_TYPE = 'submission';
+// Shown as the organizer of submitted events that didn't name one.
+const SUBMISSION_ORGANIZER = 'Community submission';
+
+// Selects the events that overlap with the filter's date range, both URL and Instagram events share these columns.
+function eventDateRange(filter?: EventFilter) {
+	return {
+		start: filter?.end ? { lt: filter.end } : undefined,
+		end: filter?.start ? { gt: filter.start } : undefined,
+	};
+}
+
+// The relations that `normalizeUrlEvent` and `normalizeInstagramEvent` need to be loaded.
+export const URL_EVENT_INCLUDE = {
+	source: true,
+	images: { select: { id: true } },
+} satisfies Prisma.UrlEventInclude;
+
+export const INSTAGRAM_EVENT_INCLUDE = {
+	organizer: true,
+	post: {
+		include: {
+			images: { select: { id: true } },
+		},
+	},
+} satisfies Prisma.InstagramEventInclude;
+
+export type UrlEventWithRelations = Prisma.UrlEventGetPayload<{ include: typeof URL_EVENT_INCLUDE }>;
+export type InstagramEventWithRelations = Prisma.InstagramEventGetPayload<{ include: typeof INSTAGRAM_EVENT_INCLUDE }>;
+
+// Returns every URL and Instagram event matching the filter in the shape served by `/api/events`, sorted by start time.
+// Events that are the same as events from other sources are merged into a single event.
+export async function fetchNormalizedEvents(filter?: EventFilter): Promise<NormalizedEvent[]> {
+	const [urlEvents, instagramEvents, submittedEvents] = await Promise.all([
+		fetchNormalizedUrlEvents(filter),
+		fetchNormalizedInstagramEvents(filter),
+		fetchNormalizedSubmittedEvents(filter),
+	]);
+
+	return collapseClusters([...urlEvents, ...instagramEvents, ...submittedEvents]).sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Replaces the events of each cluster with its canonical event, filling in details that only the other events have.
+function collapseClusters(events: NormalizedEvent[]): NormalizedEvent[] {
+	const clusters = new Map<number, NormalizedEvent[]>();
+	const collapsed: NormalizedEvent[] = [];
+	for (let event of events) {
+		if (event.clusterId === null) {
+			collapsed.push(event);
+			continue;
+		}
+
+		const members = clusters.get(event.clusterId) || [];
+		members.push(event);
+		clusters.set(event.clusterId, members);
+	}
+
+	for (let members of clusters.values()) {
+		members.sort(compareCanonical);
+		const [canonical, ...others] = members;
+
+		collapsed.push({
+			...canonical,
+			venue: canonical.venue || others.find(e => e.venue)?.venue || null,
+			description: canonical.description || others.find(e => e.description)?.description || null,
+			tickets: canonical.tickets || others.find(e => e.tickets)?.tickets || null,
+			images: canonical.images.length > 0 ? canonical.images : (others.find(e => e.images.length > 0)?.images || []),
+			sources: members.flatMap(e => e.sources),
+		});
+	}
+
+	return collapsed;
+}
+
+// Orders the events of a cluster so that the one that we trust the most comes first. Events that one of the sources
+// cancelled are only used if all of them did. Scraped events have structured data, while Instagram events are extracted
+// by a language model, and between those the first one that we found wins so that the canonical event (and so its ID in
+// calendar feeds) doesn't change as new sources are merged in.
+function compareCanonical(a: NormalizedEvent, b: NormalizedEvent): number {
+	if (a.status !== b.status) {
+		return a.status === 'scheduled' ? -1 : 1;
+	}
+	if (a.provenance.kind !== b.provenance.kind) {
+		return a.provenance.kind === 'url' ? -1 : 1;
+	}
+
+	return a.provenance.scrapedAt.getTime() - b.provenance.scrapedAt.getTime();
+}
+
+export async function fetchNormalizedUrlEvents(filter?: EventFilter): Promise<NormalizedEvent[]> {
+	const events = await prisma.urlEvent.findMany({
+		where: {
+			...eventDateRange(filter),
+			source: {
+				sourceCity: filter?.cities ? { in: filter.cities } : undefined,
+				sourceName: filter?.organizers ? { in: filter.organizers } : undefined,
+				sourceType: filter?.sourceTypes ? { in: filter.sourceTypes } : undefined,
+			},
+		},
+		include: URL_EVENT_INCLUDE,
+	});
+
+	return events.map(normalizeUrlEvent);
+}
+
+export async function fetchNormalizedInstagramEvents(filter?: EventFilter): Promise<NormalizedEvent[]> {
+	if (filter?.sourceTypes && !filter.sourceTypes.includes(INSTAGRAM_SOURCE_TYPE)) {
+		return [];
+	}
+
+	const events = await prisma.instagramEvent.findMany({
+		where: {
+			...eventDateRange(filter),
+			organizer: {
+				city: filter?.cities ? { in: filter.cities } : undefined,
+				username: filter?.organizers ? { in: filter.organizers } : undefined,
+			},
+		},
+		include: INSTAGRAM_EVENT_INCLUDE,
+	});
+
+	return events.map(normalizeInstagramEvent);
+}
+
+// Only approved submissions, see `server/utils/submissions.ts`.
+export async function fetchNormalizedSubmittedEvents(filter?: EventFilter): Promise<NormalizedEvent[]> {
+	if (filter?.sourceTypes && !filter.sourceTypes.includes(SUBMISSION_SOURCE_TYPE)) {
+		return [];
+	}
+
+	const events = await prisma.submittedEvent.findMany({
+		where: {
+			...eventDateRange(filter),
+			status: 'approved',
+			city: filter?.cities ? { in: filter.cities } : undefined,
+			organizer: filter?.organizers ? { in: filter.organizers } : undefined,
+		},
+		include: { images: { select: { id: true } } },
+	});
+
+	return events.map(normalizeSubmittedEvent);
+}
+
+export function normalizeUrlEvent(event: UrlEventWithRelations): NormalizedEvent {
+	let extendedProps: any = {};
+	try {
+		if (event.extendedProps) {
+			extendedProps = JSON.parse(event.extendedProps);
+		}
+	} catch (e) {
+		logger.warn({ extendedProps: event.extendedProps, eventID: event.id, sourceID: event.sourceId, sourceName: event.source.sourceName }, 'Invalid JSON in extendedProps attribute, this is a bug!');
+	}
+
+	const images = event.images.map(img => `/api/images/events/${img.id}`);
+	// Sources that we don't download images for still link to one.
+	if (images.length === 0 && typeof extendedProps.image === 'string') {
+		images.push(extendedProps.image);
+	}
+
+	const id = `url-event-${event.id}`;
+
+	return {
+		id,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		status: event.cancelledAt ? 'cancelled' : 'scheduled',
+		city: event.source.sourceCity,
+		organizer: event.source.sourceName,
+		sourceType: event.source.sourceType,
+		venue: normalizeVenue(extendedProps.location?.eventVenue),
+		description: typeof extendedProps.description === 'string' ? extendedProps.description : null,
+		tickets: null,
+		images,
+		provenance: {
+			kind: 'url',
+			sourceId: event.sourceId,
+			eventId: event.id,
+			scrapedAt: event.createdAt,
+		},
+		clusterId: event.clusterId,
+		sources: [{ id, url: event.url, organizer: event.source.sourceName, sourceType: event.source.sourceType }],
+	};
+}
+
+// The first event of a post keeps the ID that Instagram events had when posts could only have one event.
+export function instagramEventId(postID: string, index: number): string {
+	return index === 0 ? `instagram-event-${postID}` : `instagram-event-${postID}-${index}`;
+}
+
+export function normalizeInstagramEvent(event: InstagramEventWithRelations): NormalizedEvent {
+	const id = instagramEventId(event.postID, event.index);
+
+	return {
+		id,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		status: 'scheduled',
+		city: event.organizer.city,
+		organizer: event.organizer.username,
+		sourceType: INSTAGRAM_SOURCE_TYPE,
+		venue: (event.venueName || event.venueAddress) ? {
+			name: event.venueName || undefined,
+			address: event.venueAddress ? { streetAddress: event.venueAddress } : undefined,
+		} : null,
+		description: event.description || event.post.caption || null,
+		tickets: (event.price || event.ticketUrl || event.ageRestriction) ? {
+			price: event.price || undefined,
+			url: event.ticketUrl || undefined,
+			ageRestriction: event.ageRestriction || undefined,
+		} : null,
+		images: event.post.images.map(img => `/api/images/instagram/${img.id}`),
+		provenance: {
+			kind: 'instagram',
+			sourceId: event.organizerId,
+			postId: event.postID,
+			eventIndex: event.index,
+			scrapedAt: event.createdAt,
+		},
+		clusterId: event.clusterId,
+		sources: [{ id, url: event.url, organizer: event.organizer.username, sourceType: INSTAGRAM_SOURCE_TYPE }],
+	};
+}
+
+// Submitted events aren't deduplicated against scraped events, so they're never part of a cluster.
+function normalizeSubmittedEvent(event: Prisma.SubmittedEventGetPayload<{ include: { images: { select: { id: true } } } }>): NormalizedEvent {
+	const id = `submitted-event-${event.id}`;
+	const organizer = event.organizer || SUBMISSION_ORGANIZER;
+
+	return {
+		id,
+		// Like the titles of scraped events.
+		title: event.organizer ? `${event.title} @ ${event.organizer}` : event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		status: 'scheduled',
+		city: event.city,
+		organizer,
+		sourceType: SUBMISSION_SOURCE_TYPE,
+		venue: (event.venueName || event.venueAddress) ? {
+			name: event.venueName || undefined,
+			address: event.venueAddress ? { streetAddress: event.venueAddress } : undefined,
+		} : null,
+		description: event.description,
+		tickets: null,
+		images: event.images.map(img => `/api/images/submissions/${img.id}`),
+		provenance: {
+			kind: 'submission',
+			sourceId: event.id,
+			scrapedAt: event.reviewedAt || event.createdAt,
+		},
+		clusterId: null,
+		sources: [{ id, url: event.url, organizer, sourceType: SUBMISSION_SOURCE_TYPE }],
+	};
+}
+
+// Scrapers store venues as schema.org-ish objects whose fields are frequently missing, empty, or strings.
+export function normalizeVenue(venue: any): EventVenue | null {
+	if (!venue || typeof venue !== 'object') {
+		return null;
+	}
+
+	const latitude = Number(venue.geo?.latitude);
+	const longitude = Number(venue.geo?.longitude);
+	const hasGeo = venue.geo?.latitude !== undefined && venue.geo?.longitude !== undefined && !isNaN(latitude) && !isNaN(longitude);
+
+	const normalized: EventVenue = {
+		name: nonEmptyString(venue.name),
+		address: venue.address ? {
+			streetAddress: nonEmptyString(venue.address.streetAddress),
+			addressLocality: nonEmptyString(venue.address.addressLocality),
+			addressRegion: nonEmptyString(venue.address.addressRegion),
+			postalCode: nonEmptyString(venue.address.postalCode),
+			addressCountry: nonEmptyString(venue.address.addressCountry),
+		} : undefined,
+		geo: hasGeo ? { latitude, longitude } : undefined,
+	};
+
+	const hasAddress = normalized.address && Object.values(normalized.address).some(part => part !== undefined);
+	if (!hasAddress) {
+		normalized.address = undefined;
+	}
+
+	return (normalized.name || normalized.address || normalized.geo) ? normalized : null;
+}
+
+function nonEmptyString(value: any): string | undefined {
+	if (typeof value === 'number') {
+		return String(value);
+	}
+
+	return (typeof value === 'string' && value.trim().length > 0) ? value.trim() : undefined;
+}
+
+// Groups events by the source they came from, in the shape that `/api/events/events` and `/api/events/instagram` have
+// always returned.
+function groupIntoListings(events: NormalizedEvent[], toLegacyEvent: (event: NormalizedEvent) => any): CityEventListing[] {
+	const listings = new Map<number, CityEventListing>();
+	for (let event of events) {
+		let listing = listings.get(event.provenance.sourceId);
+		if (!listing) {
+			listing = {
+				city: event.city,
+				organizer: event.organizer,
+				sourceType: event.sourceType,
+				events: [],
+			};
+			listings.set(event.provenance.sourceId, listing);
+		}
+
+		listing.events.push(toLegacyEvent(event));
+	}
+
+	return [...listings.values()];
+}
+
+// Deprecated: use `fetchNormalizedEvents`, this only exists to back `/api/events/events`.
+export async function fetchEvents(filter?: EventFilter): Promise<CityEventListing[]> {
+	const events = await fetchNormalizedUrlEvents(filter);
+
+	return groupIntoListings(events, event => ({
+		id: event.provenance.kind === 'url' ? event.provenance.eventId : undefined,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		status: event.status,
+		createdAt: event.provenance.scrapedAt,
+		images: event.images,
+		extendedProps: {
+			description: event.description,
+			location: {
+				eventVenue: event.venue,
+			},
+		},
+	}));
+}
+
+// Deprecated: use `fetchNormalizedEvents`, this only exists to back `/api/events/instagram`.
+export async function fetchInstagramEvents(filter?: EventFilter): Promise<CityEventListing[]> {
+	const events = await fetchNormalizedInstagramEvents(filter);
+
+	return groupIntoListings(events, event => ({
+		postID: event.provenance.kind === 'instagram' ? event.provenance.postId : undefined,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		organizerID: event.provenance.sourceId,
+		createdAt: event.provenance.scrapedAt,
+		images: event.images,
+		// Like the `extendedProps` of `/api/events/events`.
+		extendedProps: {
+			description: event.description,
+			location: {
+				eventVenue: event.venue,
+			},
+			tickets: event.tickets,
+		},
+	}));
+}
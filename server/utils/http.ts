@@ -1,9 +1,13 @@
 import { UrlEvent, UrlSource } from "@prisma/client";
 import { DateTime } from "luxon";
 import { prisma } from "./db";
+import { clusterNewEvents } from "./dedup";
+import { HttpError, recordScrapeRun, scrapeRunError, ScrapeRunInit } from "./scrape-runs";
 import { EventbriteScraper, EventbriteSingleScraper } from "./sources/eventbrite";
 import { ForbiddenTicketsScraper } from "./sources/forbidden-tickets";
 import { GcalScraper } from "./sources/google-calendar";
+import { IcalScraper } from "./sources/ical";
+import { JsonLdScraper } from "./sources/json-ld";
 import { SquarespaceScraper } from "./sources/squarespace";
 import { TimelyScraper } from "./sources/timely";
 import { TockifyScraper } from "./sources/tockify";
@@ -12,6 +16,7 @@ import { WixScraper } from "./sources/wix";
 import { WordpressTribeScraper } from "./sources/wordpress-tribe";
 import eventSourcesJSON from '~~/server/utils/event_sources.json';
 import { logger as mainLogger } from '~~/server/utils/logger';
+import { UrlSourceSettings } from '~~/types';
 import { writeFileSync } from "fs";
 
 const logger = mainLogger.child({});
@@ -21,6 +26,8 @@ const SCRAPERS: UrlScraper[] = [
 	// new EventbriteSingleScraper(),
 	new ForbiddenTicketsScraper(),
 	new GcalScraper(),
+	new IcalScraper(),
+	new JsonLdScraper(),
 	new SquarespaceScraper(),
 	new TimelyScraper(),
 	new TockifyScraper(),
@@ -40,6 +47,10 @@ export interface UrlSourceInit {
 }
 
 export interface UrlEventInit {
+	// Identifies the event among the events of its source, and must not change between scrapes, so that we recognize
+	// events that we've already seen. Preferably the ID that the source itself uses for the event; sources that don't
+	// have one can fall back to `fallbackExternalId`.
+	externalId: string
 	url: string
 	title: string
 	start: Date
@@ -47,48 +58,49 @@ export interface UrlEventInit {
 	extendedProps?: any
 }
 
-interface JustScrapedEvent extends UrlEventInit {
-	sourceId: number
-}
-
 export interface UrlScraper {
 	name: string
 
-	scrape(source: UrlSource): Promise<UrlEventInit[]>
+	// Returns every event that the source currently lists, or null if the source hasn't changed since it was last scraped.
+	scrape(source: UrlSource): Promise<UrlEventInit[] | null>
 	generateSources(sources: SourceFile): UrlSourceInit[]
 }
 
 export interface ScrapeOptions {
 	// Will only run the scrape for organizers that have not been updated since before the given time
 	onlyUpdateStalerThan?: DateTime,
+	// Only scrapes the source with this ID
+	sourceId?: number,
+	// Only scrapes the sources of this type, see `UrlScraper.name`
+	sourceType?: string,
 }
 
-export async function initializeAllScrapers() {
-	await Promise.all(SCRAPERS.map(async (scraper) => {
-		const sourceInits = scraper.generateSources(eventSourcesJSON);
+export const URL_SOURCE_TYPES = SCRAPERS.map(scraper => scraper.name);
 
-		await Promise.all(sourceInits.map(async sourceInit => {
-			const source = await prisma.urlSource.findFirst({ where: { url: sourceInit.url }, select: { id: true } });
-			if (source) {
-				// TODO: update source properties, or refactor this fn to use upsert (requires changing ID column)
-				return;
-			}
+export function isUrlScraperType(name: string): boolean {
+	return URL_SOURCE_TYPES.includes(name);
+}
 
-			await prisma.urlSource.create({
-				data: {
-					url: sourceInit.url,
-					sourceName: sourceInit.sourceName,
-					sourceCity: sourceInit.sourceCity,
-					sourceType: scraper.name,
-					sourceID: sourceInit.sourceID,
-					// If this field is not initialized to 0 (or at least an hour in the past), newly created sources will not be
-					// scraped for the first hour of runtime, as the scrape job skips all sources that have been updated within
-					// the past hour.
-					lastScraped: new Date(0),
-				}
-			});
-		}))
-	}))
+// Returns the URL sources listed in a file in the format of `event_sources.json`. Scrapers that can't generate their
+// sources, e.g. because their API key isn't set, are skipped.
+export function generateSourcesFromFile(file: SourceFile): UrlSourceSettings[] {
+	return SCRAPERS.flatMap(scraper => {
+		try {
+			return scraper.generateSources(file).map(sourceInit => ({
+				...sourceInit,
+				sourceType: scraper.name,
+			}));
+		} catch (e: any) {
+			logger.warn({ type: scraper.name, error: e.toString() }, 'Skipping sources that the scraper could not generate');
+			return [];
+		}
+	});
+}
+
+export interface ReconcileCounts {
+	inserted: number
+	updated: number
+	cancelled: number
 }
 
 export async function doUrlScrapes(opts?: ScrapeOptions) {
@@ -104,62 +116,242 @@ export async function doUrlScrapes(opts?: ScrapeOptions) {
 	let sources = await prisma.urlSource.findMany({
 		where: {
 			lastScraped,
+			id: opts?.sourceId,
+			sourceType: opts?.sourceType,
+			// Disabled sources can still be scraped on purpose.
+			disabled: opts?.sourceId === undefined ? false : undefined,
 		}
 	});
 
-	const events = await Promise.all(sources.map(async source => {
-		const events = await scrapeEventsFromSource(source);
+	const results = await Promise.all(sources.map(async source => ({
+		source,
+		...await scrapeEventsFromSource(source),
+	})));
+
+	// One source at a time, since new events are clustered with the events of the other sources.
+	const counts: ReconcileCounts = { inserted: 0, updated: 0, cancelled: 0 };
+	for (let { source, events, run } of results) {
+		if (events === null) {
+			await recordScrapeRun({ urlSourceId: source.id }, run);
+			continue;
+		}
+
+		try {
+			const sourceCounts = await reconcileSourceEvents(source, events);
+			counts.inserted += sourceCounts.inserted;
+			counts.updated += sourceCounts.updated;
+			counts.cancelled += sourceCounts.cancelled;
+
+			await recordScrapeRun({ urlSourceId: source.id }, {
+				...run,
+				eventsNew: sourceCounts.inserted,
+				eventsUpdated: sourceCounts.updated,
+				eventsCancelled: sourceCounts.cancelled,
+			});
+		} catch (e: any) {
+			logger.error({ name: source.sourceName, type: source.sourceType, error: e.toString(), stack: e.stack }, 'Error persisting scraped events');
+			await recordScrapeRun({ urlSourceId: source.id }, { ...run, ...scrapeRunError(e) });
+		}
+	}
 
-		return events.map(event => ({ ...event, sourceId: source.id }));
-	}));
+	logger.info({ ...counts, sourcesCount: sources.length }, 'Completed URL scrapes');
 
-	const urlEvents = await persistNewEvents(events.flat());
+	return counts;
+}
 
-	logger.info({ eventCount: urlEvents.count, sourcesCount: sources.length }, 'Completed URL scrapes');
+// Sources that don't have IDs for their events. The URL alone isn't enough, since the parts of a multi-part event often
+// share one.
+export function fallbackExternalId(url: string, start: Date): string {
+	return `${url}#${start.toISOString()}`;
 }
 
-async function persistNewEvents(events: JustScrapedEvent[]) {
-	// TODO: URLs are not guarunteed to be unique! Forbidden Tickets for example can have multiple events with the same
-	// URL if it's a multi-part event. This function assumes they will be unique but this is not a safe assumption to make
-	// :(
-	const existingUrls = await prisma.urlEvent.findMany({
+// Stored events of a source that it stopped listing are only cancelled if they are in this window. Sources only list
+// upcoming events, and many only list the next few of them, so the window is from now until the last event that the
+// source listed. A source that lists no events at all is more likely to be broken than to have cancelled everything.
+function cancellationWindow(events: UrlEventInit[]): { start: Date, end: Date } | null {
+	if (events.length === 0) {
+		return null;
+	}
+
+	const start = new Date();
+	const end = new Date(Math.max(...events.map(e => e.start.getTime())));
+
+	return end > start ? { start, end } : null;
+}
+
+// Brings the stored events of a source in line with what the source lists right now: events that we haven't seen before
+// are inserted, events whose details changed are updated, and events that the source stopped listing are marked as
+// cancelled (and un-cancelled if they show up again).
+export async function reconcileSourceEvents(source: UrlSource, scrapedEvents: UrlEventInit[]): Promise<ReconcileCounts> {
+	// Some sources list the same event more than once, e.g. Timely lists multi-day events under each of their days.
+	const eventsByExternalId = new Map<string, UrlEventInit>();
+	for (let event of scrapedEvents) {
+		if (!eventsByExternalId.has(event.externalId)) {
+			// Some scrapers hand us date strings.
+			eventsByExternalId.set(event.externalId, { ...event, start: new Date(event.start), end: new Date(event.end) });
+		}
+	}
+	const events = [...eventsByExternalId.values()];
+	const window = cancellationWindow(events);
+
+	const storedEvents = await prisma.urlEvent.findMany({
 		where: {
-			url: { in: events.map(e => e.url) },
+			sourceId: source.id,
+			OR: [
+				{ externalId: { in: events.map(e => e.externalId) } },
+				{ url: { in: events.map(e => e.url) } },
+				...(window ? [{ start: { gte: window.start, lte: window.end } }] : []),
+			],
 		},
-		select: { url: true },
 	});
 
-	const existingUrlsSet = new Set<string>();
-	for (let url of existingUrls) {
-		existingUrlsSet.add(url.url);
+	const storedByExternalId = new Map<string, UrlEvent>();
+	// Events that were stored before we had external IDs had their URL copied into `externalId`. Those are given their
+	// real external ID the first time we see them again, rather than being inserted a second time.
+	const legacyStoredByUrl = new Map<string, UrlEvent>();
+	for (let stored of storedEvents) {
+		storedByExternalId.set(stored.externalId, stored);
+		if (stored.externalId === stored.url) {
+			legacyStoredByUrl.set(stored.url, stored);
+		}
 	}
 
-	const eventsToInsert = events.filter(e => {
-		if (existingUrlsSet.has(e.url)) {
-			return false;
+	const counts: ReconcileCounts = { inserted: 0, updated: 0, cancelled: 0 };
+	const matchedIds = new Set<number>();
+	const eventsToInsert = [];
+	for (let event of events) {
+		let stored = storedByExternalId.get(event.externalId);
+		if (!stored) {
+			stored = legacyStoredByUrl.get(event.url);
+			if (stored && matchedIds.has(stored.id)) {
+				stored = undefined;
+			}
 		}
-		existingUrlsSet.add(e.url);
-		return true;
-	}).map(e => {
-		if (e.extendedProps) {
-			e.extendedProps = JSON.stringify(e.extendedProps);
+
+		const extendedProps = event.extendedProps ? JSON.stringify(event.extendedProps) : null;
+
+		if (!stored) {
+			eventsToInsert.push({
+				sourceId: source.id,
+				externalId: event.externalId,
+				title: event.title,
+				start: event.start,
+				end: event.end,
+				url: event.url,
+				extendedProps,
+			});
+			continue;
 		}
-		return e;
-	});
 
-	const newEvents = await prisma.urlEvent.createMany({
+		matchedIds.add(stored.id);
+
+		const changed = stored.externalId !== event.externalId
+			|| stored.title !== event.title
+			|| stored.start.getTime() !== event.start.getTime()
+			|| stored.end.getTime() !== event.end.getTime()
+			|| stored.url !== event.url
+			|| stored.extendedProps !== extendedProps
+			|| stored.cancelledAt !== null;
+		if (changed) {
+			await prisma.urlEvent.update({
+				where: { id: stored.id },
+				data: {
+					externalId: event.externalId,
+					title: event.title,
+					start: event.start,
+					end: event.end,
+					url: event.url,
+					extendedProps,
+					cancelledAt: null,
+				},
+			});
+			counts.updated += 1;
+		}
+	}
+
+	if (window) {
+		const vanishedIds = storedEvents
+			.filter(stored => !matchedIds.has(stored.id) && stored.cancelledAt === null && stored.start >= window.start && stored.start <= window.end)
+			.map(stored => stored.id);
+
+		if (vanishedIds.length > 0) {
+			const cancelled = await prisma.urlEvent.updateMany({
+				where: { id: { in: vanishedIds } },
+				data: { cancelledAt: new Date() },
+			});
+			counts.cancelled = cancelled.count;
+		}
+	}
+
+	const inserted = await prisma.urlEvent.createMany({
 		data: eventsToInsert,
 	});
+	counts.inserted = inserted.count;
+
+	// `createMany` doesn't return the rows it created.
+	const insertedEvents = await prisma.urlEvent.findMany({
+		where: {
+			sourceId: source.id,
+			externalId: { in: eventsToInsert.map(e => e.externalId) },
+		},
+		select: { id: true },
+	});
+	await clusterNewEvents(insertedEvents.map(e => ({ kind: 'url', id: e.id })));
+
+	logger.debug({ name: source.sourceName, type: source.sourceType, ...counts }, 'Reconciled events');
 
-	return newEvents;
+	return counts;
 }
 
-async function scrapeEventsFromSource(source: UrlSource): Promise<UrlEventInit[]> {
+// The status of the last response that `fetchCachedWithHeaders` got for each source that is being scraped.
+const lastResponseStatus = new WeakMap<UrlSource, number>();
+// Sources of `dryRunScrape`, which aren't stored, so nothing about their scrape may be stored either.
+const dryRunSources = new WeakSet<UrlSource>();
+// How the requests for the scrape of a source are made, if not with `fetch`.
+const sourceFetches = new WeakMap<UrlSource, Fetch>();
+
+export type Fetch = (url: string | URL, init?: RequestInit) => Promise<Response>;
+
+// Scrapes a source without storing anything, and returns its events as the scraper produced them. The stored ETag isn't
+// sent, so the source is always scraped in full. Errors are thrown rather than recorded. Every request of the scrape is
+// made with `fetchUrl`, so that sources that someone outside entered can't make us fetch anything in our own network.
+export async function dryRunScrape(settings: UrlSourceSettings, fetchUrl: Fetch = fetch): Promise<UrlEventInit[]> {
+	const scraper = SCRAPER_MAP[settings.sourceType];
+	if (!scraper) {
+		throw new Error(`Unknown source type ${settings.sourceType}`);
+	}
+
+	const source: UrlSource = {
+		id: 0,
+		sourceID: settings.sourceID ?? null,
+		sourceType: settings.sourceType,
+		sourceName: settings.sourceName,
+		sourceCity: settings.sourceCity,
+		url: settings.url,
+		lastScraped: new Date(0),
+		etagLastScrape: null,
+		disabled: false,
+	};
+	dryRunSources.add(source);
+	sourceFetches.set(source, fetchUrl);
+
+	return await scraper.scrape(source) ?? [];
+}
+
+// `events` is null if the source couldn't be scraped or hasn't changed, in which case its stored events should be left as
+// they are. `run` describes the scrape so far, for the source's `ScrapeRun`.
+async function scrapeEventsFromSource(source: UrlSource): Promise<{ events: UrlEventInit[] | null, run: ScrapeRunInit }> {
+	const run: ScrapeRunInit = { startedAt: new Date() };
+
 	const scraper = SCRAPER_MAP[source.sourceType];
 	if (scraper) {
 		try {
 			const newEvents = await scraper.scrape(source);
 
+			run.httpStatus = lastResponseStatus.get(source);
+			run.notModified = newEvents === null;
+			run.eventsFound = newEvents?.length ?? 0;
+
 			await prisma.urlSource.update({
 				where: {
 					id: source.id,
@@ -169,46 +361,59 @@ async function scrapeEventsFromSource(source: UrlSource): Promise<UrlEventInit[]
 				}
 			});
 
-			return newEvents;
+			return { events: newEvents, run };
 		} catch (e: any) {
 			logger.error({ name: source.sourceName, type: source.sourceType, error: e.toString(), stack: e.stack }, `Error scraping`);
-			return [];
+			return {
+				events: null,
+				run: { ...run, httpStatus: lastResponseStatus.get(source), ...scrapeRunError(e) },
+			};
 		}
 	}
 
 	logger.error({ sourceType: source.sourceType }, 'Tried to scrape unknown source type, this is a bug!');
 
-	return [];
+	return {
+		events: null,
+		run: { ...run, error: `Unknown source type ${source.sourceType}` },
+	};
 }
 
 export type Headers = {
 	[key: string]: string
 };
 
-export async function fetchCachedWithHeaders(source: UrlSource, url: string | URL, headers: Headers, actOnResponse: (_: Response) => Promise<UrlEventInit[]>): Promise<UrlEventInit[]> {
+// Fetches a URL for the scrape of a source. Scrapers that request more than one URL, e.g. to page through the events,
+// make the other requests with this.
+export async function fetchForSource(source: UrlSource, url: string | URL, init?: RequestInit): Promise<Response> {
+	return await (sourceFetches.get(source) ?? fetch)(url, init);
+}
+
+export async function fetchCachedWithHeaders(source: UrlSource, url: string | URL, headers: Headers, actOnResponse: (_: Response) => Promise<UrlEventInit[]>): Promise<UrlEventInit[] | null> {
 	let innerHeaders: Headers = { ...headers };
 	if (source.etagLastScrape) {
 		innerHeaders['If-None-Match'] = source.etagLastScrape;
 	}
 
-	const response = await fetch(url, {
+	const response = await fetchForSource(source, url, {
 		headers: innerHeaders,
 	});
+	lastResponseStatus.set(source, response.status);
 
 	if (response.status === 304) {
 		logger.debug({ name: source.sourceName, type: source.sourceType, url }, 'Skipping scrape due to server cache reporting no changes');
-		return [];
+		return null;
 	}
 
 	if (!response.ok) {
 		logger.error({ name: source.sourceName, type: source.sourceType, url, status: response.status, text: await response.text() }, `Error fetching url`);
-		throw new Error(`Error fetching ${source.sourceName} - ${url}: ${response.status} ${response.statusText}`);
+		throw new HttpError(response.status, `Error fetching ${source.sourceName} - ${url}: ${response.status} ${response.statusText}`);
 	}
 
 	const value = await actOnResponse(response);
 
 	const etag = response.headers.get('ETag');
-	if (etag) {
+	if (etag && !dryRunSources.has(source)) {
 		// TODO: probably this should not be persisted until the scrape has _successfully_ completed
 		await prisma.urlSource.update({
 			where: { id: source.id },
@@ -225,6 +430,6 @@ export async function fetchCachedWithHeaders(source: UrlSource, url: string | UR
 // Returns null and does not call the provided callback if the server responds with a 304 not modified. Otherwise calls
 // the provided callback and updates the etag in the db, returning whatever value was returned from the provided
 // callback.
-export async function fetchCached(source: UrlSource, url: string | URL, actOnResponse: (_: Response) => Promise<UrlEventInit[]>): Promise<UrlEventInit[]> {
+export async function fetchCached(source: UrlSource, url: string | URL, actOnResponse: (_: Response) => Promise<UrlEventInit[]>): Promise<UrlEventInit[] | null> {
 	return fetchCachedWithHeaders(source, url, {}, actOnResponse)
 }
@@ -0,0 +1,116 @@
+import ICAL from 'ical.js';
+import { JSDOM } from 'jsdom';
+
+import { fetchNormalizedEvents } from '~~/server/utils/events';
+import { EventFilter } from '~~/server/utils/event-filters';
+import { EventVenue, NormalizedEvent } from '~~/types';
+
+const PRODID = '-//bay.lgbt//bay.lgbt events//EN';
+const UID_DOMAIN = 'bay.lgbt';
+
+export interface CalendarEvent {
+	// Must stay the same between renders of the feed, otherwise calendar clients will duplicate the event.
+	uid: string
+	title: string
+	start: Date
+	end: Date
+	url: string
+	createdAt: Date
+	cancelled: boolean
+	description?: string
+	location?: string
+	geo?: { latitude: number, longitude: number }
+}
+
+// Renders every URL and Instagram event matching the given filter as a single RFC 5545 VCALENDAR.
+export async function buildAggregatedCalendar(filter?: EventFilter): Promise<string> {
+	const events = await fetchNormalizedEvents(filter);
+
+	return renderCalendar(events.map(toCalendarEvent));
+}
+
+export function renderCalendar(events: CalendarEvent[]): string {
+	const calendar = new ICAL.Component(['vcalendar', [], []]);
+	calendar.updatePropertyWithValue('prodid', PRODID);
+	calendar.updatePropertyWithValue('version', '2.0');
+	calendar.updatePropertyWithValue('calscale', 'GREGORIAN');
+	calendar.updatePropertyWithValue('method', 'PUBLISH');
+	calendar.updatePropertyWithValue('x-wr-calname', 'bay.lgbt');
+
+	const dtstamp = ICAL.Time.fromJSDate(new Date(), true);
+
+	for (let event of events) {
+		const vevent = new ICAL.Component('vevent');
+		vevent.addPropertyWithValue('uid', event.uid);
+		vevent.addPropertyWithValue('dtstamp', dtstamp);
+		vevent.addPropertyWithValue('created', ICAL.Time.fromJSDate(event.createdAt, true));
+		vevent.addPropertyWithValue('summary', event.title);
+		vevent.addPropertyWithValue('dtstart', ICAL.Time.fromJSDate(event.start, true));
+		// RFC 5545 requires DTEND to be strictly after DTSTART, some sources report events that end when they start.
+		if (event.end.getTime() > event.start.getTime()) {
+			vevent.addPropertyWithValue('dtend', ICAL.Time.fromJSDate(event.end, true));
+		}
+		vevent.addPropertyWithValue('url', event.url);
+		// Subscribers that already have the event will mark it as cancelled, rather than it silently disappearing.
+		if (event.cancelled) {
+			vevent.addPropertyWithValue('status', 'CANCELLED');
+		}
+
+		if (event.description) {
+			vevent.addPropertyWithValue('description', event.description);
+		}
+		if (event.location) {
+			vevent.addPropertyWithValue('location', event.location);
+		}
+		if (event.geo) {
+			vevent.addPropertyWithValue('geo', [event.geo.latitude, event.geo.longitude]);
+		}
+
+		calendar.addSubcomponent(vevent);
+	}
+
+	// ical.js leaves off the line ending of the final END:VCALENDAR line, which RFC 5545 requires.
+	return calendar.toString() + '\r\n';
+}
+
+function toCalendarEvent(event: NormalizedEvent): CalendarEvent {
+	return {
+		uid: `${event.id}@${UID_DOMAIN}`,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		url: event.url,
+		createdAt: event.provenance.scrapedAt,
+		cancelled: event.status === 'cancelled',
+		// Instagram captions are plain text, and may well contain a `<3`.
+		description: event.provenance.kind === 'url' ? htmlToText(event.description) : (event.description || undefined),
+		location: formatVenue(event.venue),
+		geo: event.venue?.geo,
+	};
+}
+
+// Several sources (Wordpress, Squarespace) hand us HTML descriptions, calendar clients expect plain text.
+function htmlToText(html: string | null | undefined): string | undefined {
+	if (!html) {
+		return undefined;
+	}
+
+	const text = JSDOM.fragment(html).textContent?.trim();
+	return text || undefined;
+}
+
+function formatVenue(venue: EventVenue | null): string | undefined {
+	if (!venue) {
+		return undefined;
+	}
+
+	const parts = [
+		venue.name,
+		venue.address?.streetAddress,
+		venue.address?.addressLocality,
+		venue.address?.addressRegion,
+		venue.address?.postalCode,
+	].filter(part => part !== undefined);
+
+	return parts.length > 0 ? parts.join(', ') : undefined;
+}
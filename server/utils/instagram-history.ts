@@ -0,0 +1,77 @@
+import { InstagramInferenceAttempt as InstagramInferenceAttemptRow } from '@prisma/client';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { InstagramInferenceAttempt, InstagramInferencePass } from '~~/server/utils/instagram-result';
+import { LlmProvider } from '~~/server/utils/llm';
+import { InstagramInferenceAttemptInfo, InstagramPostHistory } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'instagram-history' });
+
+// Stores the requests that were made to extract the events of a post, including the ones with invalid replies.
+export async function recordInstagramInferenceAttempts(postID: string, provider: LlmProvider, transcript: InstagramInferenceAttempt[]) {
+	if (transcript.length === 0) {
+		return;
+	}
+
+	await prisma.$transaction(transcript.map(attempt => prisma.instagramInferenceAttempt.create({
+		data: {
+			postID,
+			pass: attempt.pass,
+			provider: provider.name,
+			model: attempt.reply.model,
+			messages: JSON.stringify(attempt.messages),
+			reply: attempt.reply.content,
+			issues: attempt.issues && JSON.stringify(attempt.issues),
+			promptTokens: attempt.reply.usage?.promptTokens,
+			completionTokens: attempt.reply.usage?.completionTokens,
+			totalTokens: attempt.reply.usage?.totalTokens,
+		},
+	})));
+
+	const totalTokens = transcript.reduce((total, attempt) => total + (attempt.reply.usage?.totalTokens ?? 0), 0);
+	logger.debug({ postID, attempts: transcript.length, totalTokens }, 'Recorded inference attempts for post');
+}
+
+export async function fetchInstagramPostHistory(postID: string): Promise<InstagramPostHistory> {
+	const post = await prisma.instagramPost.findUnique({
+		where: { id: postID },
+		include: {
+			organizer: true,
+			images: { select: { id: true, url: true, ocrText: true, ocrProvider: true, ocrAt: true } },
+			inferenceAttempts: { orderBy: { id: 'asc' } },
+		},
+	});
+	if (!post) {
+		throw createError({
+			statusCode: 404,
+			message: `Instagram post ${postID} does not exist`,
+		});
+	}
+
+	return {
+		postID: post.id,
+		url: post.url,
+		organizer: post.organizer.username,
+		caption: post.caption,
+		completedAt: post.completedAt,
+		reviewStatus: post.reviewStatus as InstagramPostHistory['reviewStatus'],
+		images: post.images,
+		inferenceAttempts: post.inferenceAttempts.map(toInferenceAttemptInfo),
+	};
+}
+
+function toInferenceAttemptInfo(attempt: InstagramInferenceAttemptRow): InstagramInferenceAttemptInfo {
+	return {
+		id: attempt.id,
+		createdAt: attempt.createdAt,
+		pass: attempt.pass as InstagramInferencePass,
+		provider: attempt.provider,
+		model: attempt.model,
+		messages: JSON.parse(attempt.messages),
+		reply: attempt.reply,
+		issues: attempt.issues === null ? null : JSON.parse(attempt.issues),
+		promptTokens: attempt.promptTokens,
+		completionTokens: attempt.completionTokens,
+		totalTokens: attempt.totalTokens,
+	};
+}
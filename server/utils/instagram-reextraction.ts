@@ -0,0 +1,303 @@
+import { H3Event } from 'h3';
+import { InstagramEvent, InstagramEventOrganizer, InstagramPost, Prisma } from '@prisma/client';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { clusterNewEvents, deleteSingletonClusters } from '~~/server/utils/dedup';
+import { applyExtraction, extractFromPost, InstagramExtraction } from '~~/server/utils/instagram';
+import { instagramEventTimes, instagramExtractionVersion } from '~~/server/utils/instagram-result';
+import { instagramExtractionOutcome, scoreInstagramExtraction, toPublishedDraft } from '~~/server/utils/instagram-review';
+import { OpenAiInstagramResult } from '~~/server/utils/openai';
+import { optionalString, parseDate } from '~~/server/utils/submissions';
+import {
+	InstagramEventDraft,
+	InstagramExtractionVersion,
+	InstagramReextractionChange,
+	InstagramReextractionFilter,
+	InstagramReextractionInfo,
+	InstagramReextractionPostInfo,
+} from '~~/types';
+
+const logger = mainLogger.child({ provider: 'instagram-reextraction' });
+
+// Every post costs a few requests to the language model, all within the request that creates the re-extraction.
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+// How many of the latest re-extractions `/admin/instagram-reextraction` lists.
+const MAX_LISTED = 20;
+
+const DRAFT_FIELDS: (keyof InstagramEventDraft)[] = [
+	'title', 'start', 'end', 'venueName', 'venueAddress', 'price', 'ticketUrl', 'ageRestriction', 'description',
+];
+
+// The filter is given like `InstagramReextractionFilter`, with dates in Pacific time. Only `outdatedOnly` and `limit`
+// have defaults.
+export function parseReextractionFilter(body: any): InstagramReextractionFilter {
+	const outdatedOnly = body?.outdatedOnly ?? true;
+	if (typeof outdatedOnly !== 'boolean') {
+		throw createError({
+			statusCode: 400,
+			message: 'outdatedOnly must be a boolean',
+		});
+	}
+
+	const limit = body?.limit ?? DEFAULT_LIMIT;
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+		throw createError({
+			statusCode: 400,
+			message: `limit must be an integer from 1 to ${MAX_LIMIT}`,
+		});
+	}
+
+	const filter: InstagramReextractionFilter = {
+		username: optionalString(body?.username, 'username', 100)?.replace(/^@/, '') || null,
+		postedAfter: body?.postedAfter ? parseDate(body.postedAfter, 'postedAfter') : null,
+		postedBefore: body?.postedBefore ? parseDate(body.postedBefore, 'postedBefore') : null,
+		outdatedOnly,
+		limit,
+	};
+	if (filter.postedAfter && filter.postedBefore && filter.postedBefore < filter.postedAfter) {
+		throw createError({
+			statusCode: 400,
+			message: 'postedBefore must not be before postedAfter',
+		});
+	}
+
+	return filter;
+}
+
+// The `id` route parameter of the re-extraction endpoints.
+export function getReextractionIdParam(event: H3Event): number {
+	const id = Number(getRouterParam(event, 'id'));
+	if (!Number.isInteger(id)) {
+		throw createError({
+			statusCode: 400,
+			message: 'Re-extraction ID must be an integer',
+		});
+	}
+
+	return id;
+}
+
+// Posts that a moderator published or rejected keep the moderator's events, posts waiting for a review can be
+// extracted again.
+function reextractionWhere(filter: InstagramReextractionFilter, version: InstagramExtractionVersion): Prisma.InstagramPostWhereInput {
+	const conditions: Prisma.InstagramPostWhereInput[] = [
+		{ OR: [{ reviewStatus: null }, { reviewStatus: 'pending' }] },
+	];
+	if (filter.username) {
+		conditions.push({ organizer: { username: filter.username } });
+	}
+	if (filter.postedAfter) {
+		conditions.push({ postDate: { gte: filter.postedAfter } });
+	}
+	if (filter.postedBefore) {
+		conditions.push({ postDate: { lte: filter.postedBefore } });
+	}
+	if (filter.outdatedOnly) {
+		conditions.push({
+			OR: [
+				{ extractionPromptVersion: null },
+				{ extractionPromptVersion: { not: version.promptVersion } },
+				{ extractionModel: null },
+				{ extractionModel: { not: version.model } },
+			],
+		});
+	}
+
+	return { AND: conditions };
+}
+
+// Extracts the posts matching the filter again, newest first, and stores what committing the new extractions would
+// change. Nothing about the posts changes until the re-extraction is committed.
+export async function createInstagramReextraction(filter: InstagramReextractionFilter): Promise<InstagramReextractionInfo> {
+	const version = instagramExtractionVersion();
+	const posts = await prisma.instagramPost.findMany({
+		where: reextractionWhere(filter, version),
+		include: {
+			organizer: true,
+			images: true,
+			events: { orderBy: { index: 'asc' } },
+		},
+		orderBy: { postDate: 'desc' },
+		take: filter.limit,
+	});
+
+	const previews: Prisma.InstagramReextractionPostCreateManyReextractionInput[] = [];
+	// One post at a time, so that the language model's rate limits aren't hit all at once.
+	for (const post of posts) {
+		const extraction = await extractFromPost(post.organizer, post, post.images);
+		previews.push({
+			postID: post.id,
+			result: extraction && JSON.stringify(extraction.verified),
+			preview: JSON.stringify(previewReextraction(post, extraction)),
+		});
+	}
+
+	const reextraction = await prisma.instagramReextraction.create({
+		data: {
+			status: 'previewed',
+			filter: JSON.stringify(filter),
+			promptVersion: version.promptVersion,
+			model: version.model,
+			posts: { createMany: { data: previews } },
+		},
+		include: { posts: true },
+	});
+
+	logger.info({ id: reextraction.id, filter, version, posts: posts.length }, 'Previewed re-extraction of Instagram posts');
+
+	return toReextractionInfo(reextraction);
+}
+
+function previewReextraction(
+	post: InstagramPost & { organizer: InstagramEventOrganizer, events: InstagramEvent[] },
+	extraction: InstagramExtraction | null,
+): InstagramReextractionPostInfo {
+	const info = {
+		postID: post.id,
+		url: post.url,
+		organizer: post.organizer.username,
+		postDate: post.postDate,
+		fromVersion: post.extractionPromptVersion !== null && post.extractionModel !== null
+			? { promptVersion: post.extractionPromptVersion, model: post.extractionModel }
+			: null,
+	};
+	const before = new Map(post.events.map(event => [event.index, toPublishedDraft(event, post.organizer)]));
+
+	if (!extraction) {
+		return { ...info, outcome: 'failed', confidence: null, reasons: [], changes: [] };
+	}
+
+	const score = scoreInstagramExtraction(extraction.verified, post.postDate);
+	const outcome = instagramExtractionOutcome(score);
+	// Only published events are stored, posts that need a review have none until a moderator publishes them.
+	const after = outcome === 'publish' ? publishedDrafts(score.events) : new Map();
+
+	return { ...info, outcome, confidence: score.confidence, reasons: score.reasons, changes: diffEvents(before, after) };
+}
+
+// The events that `applyExtraction` would store, by their index.
+function publishedDrafts(events: OpenAiInstagramResult[]): Map<number, InstagramEventDraft> {
+	const drafts = new Map<number, InstagramEventDraft>();
+	events.forEach((event, index) => {
+		const times = instagramEventTimes(event);
+		if (!times) {
+			return;
+		}
+
+		drafts.set(index, {
+			title: event.title ?? '',
+			start: times.start,
+			end: times.end,
+			venueName: event.venueName,
+			venueAddress: event.venueAddress,
+			price: event.price,
+			ticketUrl: event.ticketUrl,
+			ageRestriction: event.ageRestriction,
+			description: event.description,
+		});
+	});
+
+	return drafts;
+}
+
+function diffEvents(before: Map<number, InstagramEventDraft>, after: Map<number, InstagramEventDraft>): InstagramReextractionChange[] {
+	const indexes = [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a - b);
+
+	return indexes.flatMap<InstagramReextractionChange>(index => {
+		const old = before.get(index) ?? null;
+		const updated = after.get(index) ?? null;
+		if (!old || !updated) {
+			return [{ index, before: old, after: updated, fields: [] }];
+		}
+
+		const fields = DRAFT_FIELDS.filter(field => !sameValue(old[field], updated[field]));
+		return fields.length > 0 ? [{ index, before: old, after: updated, fields }] : [];
+	});
+}
+
+function sameValue(a: string | Date | null, b: string | Date | null): boolean {
+	if (a instanceof Date && b instanceof Date) {
+		return a.getTime() === b.getTime();
+	}
+
+	return a === b;
+}
+
+export async function fetchInstagramReextractions(): Promise<InstagramReextractionInfo[]> {
+	const reextractions = await prisma.instagramReextraction.findMany({
+		include: { posts: true },
+		orderBy: { createdAt: 'desc' },
+		take: MAX_LISTED,
+	});
+
+	return reextractions.map(toReextractionInfo);
+}
+
+// Replaces the events of the posts with the ones from the re-extraction, or of only the given posts. Posts whose
+// extraction failed are left alone, as are posts that a moderator reviewed since the preview. The re-extraction is
+// claimed first, so that it's only committed once, and each post's events are replaced in one transaction. If a post
+// fails, the re-extraction can be committed again: posts that were committed already get the same events again.
+export async function commitInstagramReextraction(id: number, postIDs: string[] | null) {
+	const claimed = await prisma.instagramReextraction.updateMany({
+		where: { id, status: 'previewed' },
+		data: { status: 'committing' },
+	});
+	if (claimed.count === 0) {
+		const exists = await prisma.instagramReextraction.count({ where: { id } }) > 0;
+		throw createError({
+			statusCode: exists ? 409 : 404,
+			message: exists ? `Re-extraction ${id} has already been committed` : `Re-extraction ${id} does not exist`,
+		});
+	}
+
+	const reextraction = await prisma.instagramReextraction.findUniqueOrThrow({ where: { id }, include: { posts: true } });
+	const version = { promptVersion: reextraction.promptVersion, model: reextraction.model };
+	const newEvents: InstagramEvent[] = [];
+	let committed = 0;
+	try {
+		for (const { postID, result } of reextraction.posts) {
+			if (result === null || (postIDs && !postIDs.includes(postID))) {
+				continue;
+			}
+
+			const post = await prisma.instagramPost.findUniqueOrThrow({ where: { id: postID }, include: { organizer: true, events: true } });
+			if (post.reviewStatus === 'published' || post.reviewStatus === 'rejected') {
+				logger.info({ id, postID, reviewStatus: post.reviewStatus }, 'Skipping post that was reviewed since the re-extraction');
+				continue;
+			}
+
+			const clusterIds = post.events.map(e => e.clusterId).filter((id): id is number => id !== null);
+			// The new extraction decides whether the post needs a review.
+			newEvents.push(...await applyExtraction(post.organizer, post, { verified: JSON.parse(result), version }));
+			await deleteSingletonClusters(clusterIds);
+			committed++;
+		}
+
+		await clusterNewEvents(newEvents.map(e => ({ kind: 'instagram', postID: e.postID, index: e.index })));
+	} catch (e) {
+		await prisma.instagramReextraction.update({ where: { id }, data: { status: 'previewed' } });
+		throw e;
+	}
+
+	await prisma.instagramReextraction.update({
+		where: { id },
+		data: { status: 'committed', committedAt: new Date() },
+	});
+
+	logger.info({ id, posts: committed, events: newEvents.length }, 'Committed re-extraction of Instagram posts');
+
+	return { posts: committed, events: newEvents.length };
+}
+
+function toReextractionInfo(reextraction: Prisma.InstagramReextractionGetPayload<{ include: { posts: true } }>): InstagramReextractionInfo {
+	return {
+		id: reextraction.id,
+		createdAt: reextraction.createdAt,
+		status: reextraction.status as InstagramReextractionInfo['status'],
+		committedAt: reextraction.committedAt,
+		filter: JSON.parse(reextraction.filter),
+		version: { promptVersion: reextraction.promptVersion, model: reextraction.model },
+		posts: reextraction.posts.map(post => JSON.parse(post.preview)),
+	};
+}
@@ -0,0 +1,313 @@
+import { DateTime } from 'luxon';
+import { completeValidated, getLlmProvider, LlmAttempt, LlmJsonSchema, LlmProvider, LlmValidationError } from './llm';
+import { INSTAGRAM_PROMPT_VERSION, OpenAiInstagramPostResult, OpenAiInstagramResult } from './openai';
+import { InstagramExtractionVersion } from '~~/types';
+
+// More than a month of nightly events is more likely to be the model making things up.
+const MAX_EVENTS_PER_POST = 31;
+
+const BOOLEAN_FIELDS = ['isEvent', 'isPastEvent', 'hasStartHourInPost'] as const;
+// The details of the event besides its title, with the longest value that each may have.
+const STRING_LENGTHS: Record<string, number> = {
+	venueName: 200,
+	venueAddress: 300,
+	price: 200,
+	ticketUrl: 2000,
+	ageRestriction: 50,
+	description: 500,
+};
+
+// The numeric fields with the values they may have, when they aren't null.
+const INTEGER_RANGES: Record<string, [number, number]> = {
+	startDay: [1, 31],
+	endDay: [1, 31],
+	startHourMilitaryTime: [0, 23],
+	endHourMilitaryTime: [0, 23],
+	startMinute: [0, 59],
+	endMinute: [0, 59],
+	startMonth: [1, 12],
+	endMonth: [1, 12],
+	startYear: [2000, 2100],
+	endYear: [2000, 2100],
+};
+
+const nullableInteger = (minimum: number, maximum: number) => ({ type: ['integer', 'null'], minimum, maximum });
+
+// The schema of `OpenAiInstagramPostResult`, sent to models that support structured output. The order of the
+// properties matters like it does in the prompt, see `instagramInitialPrompt`.
+export const INSTAGRAM_RESULT_SCHEMA: LlmJsonSchema = {
+	name: 'instagram_events',
+	description: 'The events that an Instagram post is about',
+	schema: {
+		type: 'object',
+		properties: {
+			events: {
+				type: 'array',
+				maxItems: MAX_EVENTS_PER_POST,
+				items: {
+					type: 'object',
+					properties: {
+						isEvent: { type: 'boolean' },
+						title: { type: ['string', 'null'] },
+						startDay: nullableInteger(...INTEGER_RANGES.startDay),
+						endDay: nullableInteger(...INTEGER_RANGES.endDay),
+						isPastEvent: { type: 'boolean' },
+						hasStartHourInPost: { type: 'boolean' },
+						startHourMilitaryTime: nullableInteger(...INTEGER_RANGES.startHourMilitaryTime),
+						endHourMilitaryTime: nullableInteger(...INTEGER_RANGES.endHourMilitaryTime),
+						startMinute: nullableInteger(...INTEGER_RANGES.startMinute),
+						endMinute: nullableInteger(...INTEGER_RANGES.endMinute),
+						startMonth: nullableInteger(...INTEGER_RANGES.startMonth),
+						endMonth: nullableInteger(...INTEGER_RANGES.endMonth),
+						startYear: nullableInteger(...INTEGER_RANGES.startYear),
+						endYear: nullableInteger(...INTEGER_RANGES.endYear),
+						...Object.fromEntries(Object.entries(STRING_LENGTHS).map(([field, maxLength]) => [field, { type: ['string', 'null'], maxLength }])),
+					},
+					required: [...BOOLEAN_FIELDS, 'title', ...Object.keys(INTEGER_RANGES), ...Object.keys(STRING_LENGTHS)],
+					additionalProperties: false,
+				},
+			},
+		},
+		required: ['events'],
+		additionalProperties: false,
+	},
+};
+
+// Checks that the model's reply is an `OpenAiInstagramPostResult` with dates that exist. Throws an
+// `LlmValidationError` listing everything that is wrong with it.
+export function validateInstagramResult(reply: string): OpenAiInstagramPostResult {
+	let object: any;
+	try {
+		object = JSON.parse(reply);
+	} catch (e: any) {
+		throw new LlmValidationError([`The reply is not valid JSON: ${e.message}`]);
+	}
+	if (typeof object !== 'object' || object === null || !Array.isArray(object.events)) {
+		throw new LlmValidationError(['The reply must be a JSON object with a list of events']);
+	}
+	if (object.events.length > MAX_EVENTS_PER_POST) {
+		throw new LlmValidationError([`The reply must have at most ${MAX_EVENTS_PER_POST} events`]);
+	}
+
+	const issues = object.events.flatMap((event: any, index: number) => validateEvent(event).map(issue => `events[${index}]: ${issue}`));
+	if (issues.length > 0) {
+		throw new LlmValidationError(issues);
+	}
+
+	return { events: object.events };
+}
+
+function validateEvent(object: any): string[] {
+	if (typeof object !== 'object' || object === null || Array.isArray(object)) {
+		return ['must be a JSON object'];
+	}
+
+	const issues: string[] = [];
+	for (const field of BOOLEAN_FIELDS) {
+		if (!Object.hasOwn(object, field)) {
+			issues.push(`${field} is missing`);
+		} else if (typeof object[field] !== 'boolean') {
+			issues.push(`${field} must be true or false`);
+		}
+	}
+
+	if (!Object.hasOwn(object, 'title')) {
+		issues.push('title is missing');
+	} else if (object.title !== null && typeof object.title !== 'string') {
+		issues.push('title must be a string or null');
+	}
+
+	for (const [field, [min, max]] of Object.entries(INTEGER_RANGES)) {
+		const value = object[field];
+		if (!Object.hasOwn(object, field)) {
+			issues.push(`${field} is missing`);
+		} else if (value !== null && (!Number.isInteger(value) || value < min || value > max)) {
+			issues.push(`${field} must be null or a whole number from ${min} to ${max}, not ${JSON.stringify(value)}`);
+		}
+	}
+
+	for (const [field, maxLength] of Object.entries(STRING_LENGTHS)) {
+		const value = object[field];
+		if (!Object.hasOwn(object, field)) {
+			issues.push(`${field} is missing`);
+		} else if (value !== null && typeof value !== 'string') {
+			issues.push(`${field} must be a string or null`);
+		} else if (value !== null && value.length > maxLength) {
+			issues.push(`${field} must be at most ${maxLength} characters long`);
+		}
+	}
+	if (typeof object.ticketUrl === 'string' && !isHttpUrl(object.ticketUrl)) {
+		issues.push(`ticketUrl must be a link starting with https://, not ${JSON.stringify(object.ticketUrl)}`);
+	}
+
+	if (issues.length === 0) {
+		const startYear = object.startYear ?? new Date().getFullYear();
+		checkDayOfMonth(issues, 'startDay', object.startDay, object.startMonth, startYear);
+		checkDayOfMonth(issues, 'endDay', object.endDay, object.endMonth ?? object.startMonth, object.endYear ?? startYear);
+	}
+
+	return issues;
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		return ['http:', 'https:'].includes(new URL(value).protocol);
+	} catch (e) {
+		return false;
+	}
+}
+
+function checkDayOfMonth(issues: string[], field: string, day: number | null, month: number | null, year: number) {
+	if (day === null || month === null) {
+		return;
+	}
+
+	const daysInMonth = DateTime.fromObject({ year, month }).daysInMonth;
+	if (daysInMonth !== undefined && day > daysInMonth) {
+		issues.push(`${field} ${day} does not exist in month ${month} of ${year}, which has ${daysInMonth} days`);
+	}
+}
+
+export interface VerifiedInstagramResult {
+	// The reply to the initial prompt.
+	initial: OpenAiInstagramPostResult
+	// The reply of the last verification pass.
+	repaired: OpenAiInstagramPostResult
+	// The result that the passes agreed on, or null if they didn't.
+	result: OpenAiInstagramPostResult | null
+}
+
+// Recorded on the events of posts, so that posts can be extracted again when the prompts or the model change.
+export function instagramExtractionVersion(provider: LlmProvider = getLlmProvider()): InstagramExtractionVersion {
+	return { promptVersion: INSTAGRAM_PROMPT_VERSION, model: provider.model };
+}
+
+// The passes of `extractVerifiedInstagramResult`: the initial extraction, the check of it, and the check of the repair.
+export type InstagramInferencePass = 'initial' | 'verification' | 'recheck';
+
+export interface InstagramInferenceAttempt extends LlmAttempt {
+	pass: InstagramInferencePass
+}
+
+// Extracts the events from a post, then has the model check its own reply against the post. The initial result is kept
+// if the check doesn't change it. If it does, the repaired result is checked again, and kept only if that second check
+// doesn't change it either, so that results the model keeps changing its mind about aren't published. Every request is
+// appended to `transcript`, also when this throws.
+export async function extractVerifiedInstagramResult(
+	initialPrompt: string,
+	repairPrompt: (modelOutputJson: string) => string,
+	provider: LlmProvider = getLlmProvider(),
+	transcript: InstagramInferenceAttempt[] = [],
+): Promise<VerifiedInstagramResult> {
+	const complete = async (pass: InstagramInferencePass, prompt: string) => {
+		const attempts: LlmAttempt[] = [];
+		try {
+			return await completeValidated([{ role: 'system', content: prompt }], INSTAGRAM_RESULT_SCHEMA, validateInstagramResult, { provider, transcript: attempts });
+		} finally {
+			transcript.push(...attempts.map(attempt => ({ ...attempt, pass })));
+		}
+	};
+	const verify = (pass: InstagramInferencePass, result: OpenAiInstagramPostResult) => complete(pass, repairPrompt(JSON.stringify(result, null, 2)));
+
+	const initial = await complete('initial', initialPrompt);
+	const repaired = await verify('verification', initial);
+	if (instagramResultsAgree(initial, repaired)) {
+		return { initial, repaired, result: initial };
+	}
+
+	const rechecked = await verify('recheck', repaired);
+	return {
+		initial,
+		repaired: rechecked,
+		result: instagramResultsAgree(repaired, rechecked) ? repaired : null,
+	};
+}
+
+export function instagramResultsAgree(a: OpenAiInstagramPostResult, b: OpenAiInstagramPostResult): boolean {
+	return a.events.length === b.events.length && a.events.every((event, i) => eventsAgree(event, b.events[i]));
+}
+
+function eventsAgree(a: OpenAiInstagramResult, b: OpenAiInstagramResult): boolean {
+	return (Object.keys(a) as (keyof OpenAiInstagramResult)[]).every(field => a[field] === b[field])
+		&& Object.keys(a).length === Object.keys(b).length;
+}
+
+// Fills in what the post didn't say with defaults: the current year, on the hour, and ending two hours after the start.
+export function fillInstagramResultDefaults(result: OpenAiInstagramResult): OpenAiInstagramResult {
+	const object = { ...result };
+
+	if (object.startYear === null) {
+		object.startYear = new Date().getFullYear();
+	}
+	if (object.endYear === null) {
+		object.endYear = object.startYear;
+	}
+	if (object.startMinute === null) {
+		object.startMinute = 0;
+	}
+	if (object.endMinute === null) {
+		object.endMinute = 0;
+	}
+	if (object.startMonth === 12 && object.endMonth === 1) {
+		object.endYear = object.startYear + 1;
+	}
+	if (object.endMonth === null) {
+		object.endMonth = object.startMonth;
+	}
+	if (object.endDay === null) {
+		object.endDay = object.startDay;
+	}
+	if (object.endHourMilitaryTime === null && object.startHourMilitaryTime !== null) {
+		// End 2 hours from startHourMilitaryTime
+		object.endHourMilitaryTime = object.startHourMilitaryTime + 2;
+		if (object.endHourMilitaryTime > 23) {
+			object.endHourMilitaryTime -= 24;
+			object.endDay = object.startDay !== null ? object.startDay + 1 : null; // Would this overflow the month? Need to check.
+		}
+	}
+
+	return object;
+}
+
+// The start and end of an upcoming event in a result with its defaults filled in, or null if the post didn't say when
+// it is.
+export function instagramEventTimes(inference: OpenAiInstagramResult): { start: Date, end: Date } | null {
+	if (inference.isEvent === true
+		&& inference.startDay !== null
+		&& inference.startHourMilitaryTime !== null
+		&& inference.endHourMilitaryTime !== null
+		&& inference.startMinute !== null
+		&& inference.endMinute !== null
+		&& inference.endDay !== null
+		&& inference.hasStartHourInPost === true
+		&& inference.isPastEvent === false
+	) {
+		let end = DateTime.fromObject(
+			{
+				year: inference.endYear || undefined,
+				month: inference.endMonth || undefined,
+				day: inference.startDay,
+				hour: inference.endHourMilitaryTime,
+				minute: inference.endMinute
+			},
+			{ zone: 'America/Los_Angeles' },
+		);
+		// Allow Luxon to automatically take care of overflow (i.e. day 32 of the month).
+		end = end.plus({ days: inference.endDay - inference.startDay });
+
+		const start = DateTime.fromObject(
+			{
+				year: inference.startYear || undefined,
+				month: inference.startMonth || undefined,
+				day: inference.startDay,
+				hour: inference.startHourMilitaryTime,
+				minute: inference.startMinute
+			},
+			{ zone: 'America/Los_Angeles' }
+		);
+
+		return { start: start.toUTC().toJSDate(), end: end.toUTC().toJSDate() };
+	}
+
+	return null;
+}
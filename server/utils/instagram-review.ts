@@ -0,0 +1,341 @@
+import { H3Event } from 'h3';
+import { DateTime } from 'luxon';
+import { InstagramEvent, InstagramEventOrganizer, InstagramPost, Prisma } from '@prisma/client';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { clusterNewEvents, deleteSingletonClusters } from '~~/server/utils/dedup';
+import { fillInstagramResultDefaults, instagramEventTimes, instagramResultsAgree, VerifiedInstagramResult } from '~~/server/utils/instagram-result';
+import { OpenAiInstagramResult } from '~~/server/utils/openai';
+import { optionalString, parseDate, requiredString } from '~~/server/utils/submissions';
+import { InstagramEventDraft, InstagramEventFields, InstagramReview } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'instagram-review' });
+
+// Extractions less confident than this wait for a moderator instead of being published.
+export const MIN_PUBLISH_CONFIDENCE = 0.75;
+// Events are rarely announced further ahead than this, so dates beyond it are more likely to be made up.
+const MAX_MONTHS_AHEAD = 6;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_FIELD_LENGTH = 500;
+const MAX_URL_LENGTH = 2000;
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+export type InstagramReviewStatus = InstagramReview['status'];
+const REVIEW_STATUSES: InstagramReviewStatus[] = ['pending', 'published', 'rejected'];
+
+export interface InstagramExtractionScore {
+	// The events of the result, with their defaults filled in.
+	events: OpenAiInstagramResult[]
+	// From 0 to 1, how much the extraction can be trusted.
+	confidence: number
+	// Why the extraction isn't fully trusted, for moderators.
+	reasons: string[]
+	// Whether an event is missing its date or start time, in which case it can't be published without a moderator.
+	partial: boolean
+}
+
+// Scores how much the events extracted from a post can be trusted. Replies that the verification pass had to correct,
+// events without an end time, and dates far from when the post was posted are less trustworthy.
+export function scoreInstagramExtraction(verified: VerifiedInstagramResult, postDate: Date): InstagramExtractionScore {
+	const reasons: string[] = [];
+	let confidence = 1;
+
+	const result = verified.result ?? verified.repaired;
+	if (!verified.result) {
+		confidence *= 0.3;
+		reasons.push('The verification pass kept changing the extracted events');
+	} else if (!instagramResultsAgree(verified.initial, verified.result)) {
+		confidence *= 0.8;
+		reasons.push('The verification pass corrected the extracted events');
+	}
+
+	let partial = false;
+	const post = DateTime.fromJSDate(postDate);
+	const events = result.events.map(fillInstagramResultDefaults);
+	events.forEach((event, i) => {
+		if (!event.isEvent || event.isPastEvent) {
+			return;
+		}
+
+		const name = `Event ${i + 1} (${event.title ?? 'untitled'})`;
+		const times = instagramEventTimes(event);
+		if (!times) {
+			partial = true;
+			reasons.push(`${name} has no ${event.startDay === null ? 'date' : 'start time'}`);
+			return;
+		}
+
+		if (result.events[i].endHourMilitaryTime === null) {
+			confidence *= 0.9;
+			reasons.push(`${name} has no end time, it was assumed to last 2 hours`);
+		}
+		if (times.start < post.minus({ days: 1 }).toJSDate()) {
+			confidence *= 0.5;
+			reasons.push(`${name} starts before it was posted`);
+		} else if (times.start > post.plus({ months: MAX_MONTHS_AHEAD }).toJSDate()) {
+			confidence *= 0.5;
+			reasons.push(`${name} starts more than ${MAX_MONTHS_AHEAD} months after it was posted`);
+		}
+	});
+
+	return { events, confidence, reasons, partial };
+}
+
+// Whether a scored extraction has any events that are worth a moderator's time.
+export function hasUpcomingEvents(score: InstagramExtractionScore): boolean {
+	return score.events.some(event => event.isEvent && !event.isPastEvent);
+}
+
+export function needsReview(score: InstagramExtractionScore): boolean {
+	return score.partial || score.confidence < MIN_PUBLISH_CONFIDENCE;
+}
+
+export type InstagramExtractionOutcome = 'publish' | 'review' | 'none';
+
+// Whether the events of a scored extraction can be published, need a moderator, or whether there aren't any.
+export function instagramExtractionOutcome(score: InstagramExtractionScore): InstagramExtractionOutcome {
+	if (!hasUpcomingEvents(score)) {
+		return 'none';
+	}
+
+	return needsReview(score) ? 'review' : 'publish';
+}
+
+// How a post is put into the review queue. It's complete as far as scrapes are concerned, so that it isn't extracted
+// again.
+export function queuedReviewData(score: InstagramExtractionScore): Prisma.InstagramPostUpdateInput {
+	return {
+		reviewStatus: 'pending',
+		reviewReasons: JSON.stringify(score.reasons),
+		confidence: score.confidence,
+		reviewedAt: null,
+		completedAt: new Date(),
+	};
+}
+
+export function parseInstagramReviewStatus(value: any): InstagramReviewStatus {
+	if (!REVIEW_STATUSES.includes(value)) {
+		throw createError({
+			statusCode: 400,
+			message: `status must be one of ${REVIEW_STATUSES.join(', ')}`,
+		});
+	}
+
+	return value;
+}
+
+// The `id` route parameter of the review endpoints, which is the ID of the post.
+export function getInstagramPostIdParam(event: H3Event): string {
+	const id = getRouterParam(event, 'id');
+	if (!id || !/^\d+$/.test(id)) {
+		throw createError({
+			statusCode: 400,
+			message: 'Post ID must be a number',
+		});
+	}
+
+	return id;
+}
+
+const REVIEW_INCLUDE = {
+	organizer: true,
+	images: { select: { id: true } },
+	events: { orderBy: { index: 'asc' } },
+} satisfies Prisma.InstagramPostInclude;
+
+type PostWithReview = Prisma.InstagramPostGetPayload<{ include: typeof REVIEW_INCLUDE }>;
+
+// The review queue: oldest posts first, so that they're reviewed in order.
+export async function fetchInstagramReviews(status: InstagramReviewStatus): Promise<InstagramReview[]> {
+	const posts = await prisma.instagramPost.findMany({
+		where: { reviewStatus: status },
+		include: REVIEW_INCLUDE,
+		orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+	});
+
+	return posts.map(toInstagramReview);
+}
+
+// Replaces the events of the post with the ones that the moderator corrected, and publishes them.
+export async function publishInstagramReview(postID: string, body: any) {
+	const post = await findReviewedPost(postID);
+	if (!Array.isArray(body?.events) || body.events.length === 0) {
+		throw createError({
+			statusCode: 400,
+			message: 'events must be a non-empty list of events',
+		});
+	}
+	const fields: InstagramEventFields[] = body.events.map(parseInstagramEventFields);
+
+	// Events that were already published are replaced, so that a post can be corrected again.
+	const clusterIds = post.events.map(e => e.clusterId).filter((id): id is number => id !== null);
+	const [, , ...events] = await prisma.$transaction([
+		prisma.instagramEvent.deleteMany({ where: { postID } }),
+		prisma.instagramPost.update({
+			where: { id: postID },
+			data: { reviewStatus: 'published', reviewedAt: new Date(), completedAt: new Date() },
+		}),
+		...fields.map((event, index) => prisma.instagramEvent.create({
+			data: {
+				...event,
+				postID,
+				index,
+				url: post.url,
+				title: `${event.title} @ ${post.organizer.username}`,
+				organizerId: post.organizerId,
+				// Corrected events keep the version of the extraction that they were corrected from.
+				extractionPromptVersion: post.extractionPromptVersion,
+				extractionModel: post.extractionModel,
+			},
+		})),
+	]);
+	await deleteSingletonClusters(clusterIds);
+
+	await clusterNewEvents(events.map(e => ({ kind: 'instagram', postID: e.postID, index: e.index })));
+}
+
+export async function rejectInstagramReview(postID: string) {
+	const post = await findReviewedPost(postID);
+
+	const clusterIds = post.events.map(e => e.clusterId).filter((id): id is number => id !== null);
+	await prisma.$transaction([
+		prisma.instagramEvent.deleteMany({ where: { postID } }),
+		prisma.instagramPost.update({
+			where: { id: postID },
+			data: { reviewStatus: 'rejected', reviewedAt: new Date(), completedAt: new Date() },
+		}),
+	]);
+	await deleteSingletonClusters(clusterIds);
+}
+
+async function findReviewedPost(postID: string): Promise<PostWithReview> {
+	const post = await prisma.instagramPost.findUnique({ where: { id: postID }, include: REVIEW_INCLUDE });
+	if (!post || !post.reviewStatus) {
+		throw createError({
+			statusCode: 404,
+			message: `Instagram post ${postID} is not in the review queue`,
+		});
+	}
+
+	return post;
+}
+
+// Validates the fields of an event corrected by a moderator. Times are local to the bay, like on `/submit`.
+function parseInstagramEventFields(fields: any): InstagramEventFields {
+	if (typeof fields !== 'object' || fields === null) {
+		throw createError({
+			statusCode: 400,
+			message: 'events must be objects',
+		});
+	}
+
+	const start = parseDate(fields.start, 'start');
+	const end = parseDate(fields.end, 'end');
+	if (end < start) {
+		throw createError({
+			statusCode: 400,
+			message: 'end must not be before start',
+		});
+	}
+
+	const ticketUrl = optionalString(fields.ticketUrl, 'ticketUrl', MAX_URL_LENGTH);
+	if (ticketUrl && !/^https?:\/\//i.test(ticketUrl)) {
+		throw createError({
+			statusCode: 400,
+			message: 'ticketUrl must be an http(s) URL',
+		});
+	}
+
+	return {
+		title: requiredString(fields.title, 'title', MAX_TITLE_LENGTH),
+		start,
+		end,
+		venueName: optionalString(fields.venueName, 'venueName', MAX_FIELD_LENGTH),
+		venueAddress: optionalString(fields.venueAddress, 'venueAddress', MAX_FIELD_LENGTH),
+		price: optionalString(fields.price, 'price', MAX_FIELD_LENGTH),
+		ticketUrl,
+		ageRestriction: optionalString(fields.ageRestriction, 'ageRestriction', MAX_FIELD_LENGTH),
+		description: optionalString(fields.description, 'description', MAX_DESCRIPTION_LENGTH),
+	};
+}
+
+function toInstagramReview(post: PostWithReview): InstagramReview {
+	const initialInference = parseJson(post.initialInference);
+	const repairedInference = parseJson(post.repairedInference);
+
+	return {
+		postID: post.id,
+		status: parseInstagramReviewStatus(post.reviewStatus),
+		url: post.url,
+		organizer: post.organizer.username,
+		city: post.organizer.city,
+		postDate: post.postDate,
+		caption: post.caption,
+		ocrText: post.ocrText,
+		images: post.images.map(img => `/api/images/instagram/${img.id}`),
+		initialInference,
+		repairedInference,
+		confidence: post.confidence,
+		reasons: parseJson(post.reviewReasons) ?? [],
+		events: post.reviewStatus === 'published'
+			? post.events.map(e => toPublishedDraft(e, post.organizer))
+			: draftsFromInference(repairedInference ?? initialInference),
+		reviewedAt: post.reviewedAt,
+	};
+}
+
+// The fields of a stored event, as they're entered on the review page.
+export function toPublishedDraft(event: InstagramEvent, organizer: InstagramEventOrganizer): InstagramEventDraft {
+	// The organizer is added to the title when the event is published.
+	const suffix = ` @ ${organizer.username}`;
+
+	return {
+		title: event.title.endsWith(suffix) ? event.title.slice(0, -suffix.length) : event.title,
+		start: event.start,
+		end: event.end,
+		venueName: event.venueName,
+		venueAddress: event.venueAddress,
+		price: event.price,
+		ticketUrl: event.ticketUrl,
+		ageRestriction: event.ageRestriction,
+		description: event.description,
+	};
+}
+
+// The events that the language model found, for the moderator to start from.
+function draftsFromInference(inference: any): InstagramEventDraft[] {
+	if (!Array.isArray(inference?.events)) {
+		return [];
+	}
+
+	return (inference.events as OpenAiInstagramResult[])
+		.filter(event => event.isEvent && !event.isPastEvent)
+		.map(event => {
+			const times = instagramEventTimes(fillInstagramResultDefaults(event));
+			return {
+				title: event.title ?? '',
+				start: times?.start ?? null,
+				end: times?.end ?? null,
+				venueName: event.venueName ?? null,
+				venueAddress: event.venueAddress ?? null,
+				price: event.price ?? null,
+				ticketUrl: event.ticketUrl ?? null,
+				ageRestriction: event.ageRestriction ?? null,
+				description: event.description ?? null,
+			};
+		});
+}
+
+function parseJson(json: string | null): any {
+	if (!json) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(json);
+	} catch (e) {
+		logger.warn({ json }, 'Invalid JSON stored on Instagram post, this is a bug!');
+		return null;
+	}
+}
@@ -1,12 +1,17 @@
 import { InstagramEvent, InstagramEventOrganizer, InstagramImage, InstagramPost, Prisma } from "@prisma/client";
-import { Configuration, OpenAIApi } from "openai";
-import vision from '@google-cloud/vision';
 import { DateTime } from "luxon";
-import { OpenAiInstagramResult, instagramInitialPrompt, executePrompt } from "./openai";
+import { OpenAiInstagramResult, instagramInitialPrompt, instagramRepairPrompt } from "./openai";
+import { getLlmProvider, LlmValidationError } from "./llm";
+import { getOcrProvider } from "./ocr";
+import { extractVerifiedInstagramResult, InstagramInferenceAttempt, instagramEventTimes, instagramExtractionVersion, VerifiedInstagramResult } from "./instagram-result";
+import { recordInstagramInferenceAttempts } from "./instagram-history";
+import { instagramExtractionOutcome, queuedReviewData, scoreInstagramExtraction } from "./instagram-review";
 
 import { prisma } from '~~/server/utils/db';
 import { logger as mainLogger } from './logger';
-import { InstagramApiPost, InstagramSource } from "~~/types";
+import { InstagramApiPost, InstagramExtractionVersion } from "~~/types";
+import { clusterNewEvents } from "./dedup";
+import { HttpError, recordScrapeRun, scrapeRunError } from "./scrape-runs";
 
 if (!process.env.INSTAGRAM_BUSINESS_USER_ID) {
 	throw new Error('INSTAGRAM_BUSINESS_USER_ID not found.');
@@ -14,41 +19,30 @@ if (!process.env.INSTAGRAM_BUSINESS_USER_ID) {
 if (!process.env.INSTAGRAM_USER_ACCESS_TOKEN) {
 	throw new Error('INSTAGRAM_USER_ACCESS_TOKEN not found.');
 }
-if (!process.env.OPENAI_API_KEY) {
-	throw new Error('OPENAI_API_KEY not found.');
-}
-
-const openai = new OpenAIApi(new Configuration({
-	apiKey: process.env.OPENAI_API_KEY,
-}));
 const logger = mainLogger.child({ provider: 'instagram' });
 
+// Returns the text of the images. OCR only runs on images that it didn't run on before, e.g. when
+// `fixupInstagramIngestion` extracts a post again, and its text is stored on the images.
 async function fetchOcrResults(images: InstagramImage[]) {
-	if (!process.env.GOOGLE_CLOUD_VISION_PRIVATE_KEY) {
-		throw new Error('GOOGLE_CLOUD_VISION_PRIVATE_KEY not found.');
+	const textByImage = new Map(images.map(image => [image.id, image.ocrText]));
+
+	const missing = images.filter(image => image.ocrText === null);
+	if (missing.length > 0) {
+		const ocr = getOcrProvider();
+		await Promise.all(
+			missing.map(async (image) => {
+				const annotations = await ocr.recognize(image.data);
+
+				logger.debug({ url: image.url, imageID: image.id, postID: image.postID, ocrProvider: ocr.name, annotations }, 'Executed OCR on image');
+				await prisma.instagramImage.update({
+					where: { id: image.id },
+					data: { ocrText: annotations, ocrProvider: ocr.name, ocrAt: new Date() },
+				});
+				textByImage.set(image.id, annotations);
+			}));
 	}
-	if (!process.env.GOOGLE_CLOUD_VISION_CLIENT_EMAIL) {
-		throw new Error('GOOGLE_CLOUD_VISION_CLIENT_EMAIL not found.');
-	}
-	const client = new vision.ImageAnnotatorClient({
-		scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-		credentials: {
-			private_key: process.env.GOOGLE_CLOUD_VISION_PRIVATE_KEY.replace(/\\n/g, '\n'),
-			client_email: process.env.GOOGLE_CLOUD_VISION_CLIENT_EMAIL,
-		},
-	});
-
-	const annotationsAll = await Promise.all(
-		images.map(async (image) => {
-			const [result] = await client.textDetection(image.data);
-			const annotations = (result.textAnnotations && result.textAnnotations.length > 0) ?
-				result.fullTextAnnotation?.text || '' : '';
 
-			logger.debug({ url: image.url, imageID: image.id, postID: image.postID, result, annotations }, 'Executed OCR on image');
-			return annotations;
-		}));
-
-	const result = annotationsAll.join('\n');
+	const result = images.map(image => textByImage.get(image.id)).join('\n');
 	return result;
 }
 
@@ -58,8 +52,8 @@ function instagramURL(sourceUsername: string) {
 		+ `&access_token=${process.env.INSTAGRAM_USER_ACCESS_TOKEN}`
 }
 
-// Fetches the five most recent posts from the given Instagram account.
-async function fetchPosts(organizer: InstagramEventOrganizer): Promise<InstagramApiPost[]> {
+// Fetches the five most recent posts from the given Instagram account, along with the status of the response.
+async function fetchPosts(organizer: InstagramEventOrganizer): Promise<{ status: number, posts: InstagramApiPost[] }> {
 	const response = await fetch(instagramURL(organizer.username));
 
 	const rateLimitHeader = response.headers.get('X-App-Usage');
@@ -80,161 +74,129 @@ async function fetchPosts(organizer: InstagramEventOrganizer): Promise<Instagram
 	const responseBody = await response.json();
 
 	if (responseBody.error) {
-		throw new Error(responseBody.error.message);
+		throw new HttpError(response.status, responseBody.error.message);
 	}
 
-	return responseBody.business_discovery.media.data;
+	return { status: response.status, posts: responseBody.business_discovery.media.data };
 }
 
-async function extractEventFromPost(organizer: InstagramEventOrganizer, post: InstagramPost, images: InstagramImage[]): Promise<InstagramEvent | null> {
-	const imageText = await extractTextFromPostImages(post, images);
-
-	const inference = await runInferenceOnPost(organizer, post, imageText);
-	if (!inference) {
-		return null;
+async function extractEventsFromPost(organizer: InstagramEventOrganizer, post: InstagramPost, images: InstagramImage[]): Promise<InstagramEvent[]> {
+	const extraction = await extractFromPost(organizer, post, images);
+	if (!extraction) {
+		return [];
 	}
 
-	return await persistEvent(inference, post, organizer);
+	return await applyExtraction(organizer, post, extraction);
 }
 
-async function persistEvent(inference: OpenAiInstagramResult, post: InstagramPost, organizer: InstagramEventOrganizer): Promise<InstagramEvent | null> {
-	if (inference.isEvent === true
-		&& inference.startDay !== null
-		&& inference.startHourMilitaryTime !== null
-		&& inference.endHourMilitaryTime !== null
-		&& inference.startMinute !== null
-		&& inference.endMinute !== null
-		&& inference.endDay !== null
-		&& inference.hasStartHourInPost === true
-		&& inference.isPastEvent === false
-	) {
-		let end = DateTime.fromObject(
-			{
-				year: inference.endYear || undefined,
-				month: inference.endMonth || undefined,
-				day: inference.startDay,
-				hour: inference.endHourMilitaryTime,
-				minute: inference.endMinute
-			},
-			{ zone: 'America/Los_Angeles' },
-		);
-		// Allow Luxon to automatically take care of overflow (i.e. day 32 of the month).
-		end = end.plus({ days: inference.endDay - inference.startDay });
-
-		const start = DateTime.fromObject(
-			{
-				year: inference.startYear || undefined,
-				month: inference.startMonth || undefined,
-				day: inference.startDay,
-				hour: inference.startHourMilitaryTime,
-				minute: inference.startMinute
-			},
-			{ zone: 'America/Los_Angeles' }
-		);
+export interface InstagramExtraction {
+	verified: VerifiedInstagramResult
+	version: InstagramExtractionVersion
+}
 
-		const event = await prisma.instagramEvent.create({
-			data: {
-				postID: post.id,
-				start: start.toUTC().toJSDate(),
-				end: end.toUTC().toJSDate(),
-				url: post.url,
-				title: `${inference.title} @ ${organizer.username}`,
-				organizerId: post.organizerId
-			}
-		});
+// Runs OCR and the language model on the post without changing its events. Returns null if the model's replies couldn't
+// be used.
+export async function extractFromPost(organizer: InstagramEventOrganizer, post: InstagramPost, images: InstagramImage[]): Promise<InstagramExtraction | null> {
+	const imageText = await extractTextFromPostImages(post, images);
 
-		logger.debug({ postID: event.postID, eventTitle: event.title }, 'Persisted event to database');
+	return await runInferenceOnPost(organizer, post, imageText);
+}
 
-		await prisma.instagramPost.update({
+// Stores the extraction on the post and replaces its events with the new ones, or queues the post for review, depending
+// on how confident the extraction is. The writes run in one transaction, so that a post never loses its events without
+// getting the new ones. Returns the published events, which still have to be clustered.
+export async function applyExtraction(organizer: InstagramEventOrganizer, post: InstagramPost, { verified, version }: InstagramExtraction): Promise<InstagramEvent[]> {
+	const score = scoreInstagramExtraction(verified, post.postDate);
+	const outcome = instagramExtractionOutcome(score);
+	const events = outcome === 'publish' ? eventsToPersist(score.events, post, organizer, version) : [];
+	const review: Prisma.InstagramPostUpdateInput = outcome === 'review'
+		? queuedReviewData(score)
+		: { reviewStatus: null, reviewReasons: null, confidence: null, reviewedAt: null };
+
+	const [, , ...created] = await prisma.$transaction([
+		prisma.instagramEvent.deleteMany({ where: { postID: post.id } }),
+		prisma.instagramPost.update({
 			where: { id: post.id },
 			data: {
-				completedAt: new Date(),
-			}
-		});
+				initialInference: JSON.stringify(verified.initial),
+				repairedInference: JSON.stringify(verified.repaired),
+				extractionPromptVersion: version.promptVersion,
+				extractionModel: version.model,
+				...review,
+				// The post is complete once any of its events is stored.
+				...(events.length > 0 ? { completedAt: new Date() } : {}),
+			},
+		}),
+		...events.map(data => prisma.instagramEvent.create({ data })),
+	]);
 
-		return event;
+	if (outcome === 'review') {
+		logger.info({ postID: post.id, postUrl: post.url, confidence: score.confidence, reasons: score.reasons }, 'Queued Instagram post for review');
+	}
+	for (const event of created) {
+		logger.debug({ postID: event.postID, index: event.index, eventTitle: event.title }, 'Persisted event to database');
 	}
 
-	return null;
-}
-
-
-function fixGeneratedJson(generatedJson: string): string {
-	return generatedJson.replace(/^[^{]*/, '').replace(/[^}]*$/, '');
+	return created;
 }
 
-function postProcessOpenAiInstagramResponse(generatedJson: string): OpenAiInstagramResult {
-	const object = JSON.parse(fixGeneratedJson(generatedJson));
-
-	const hasAllProperties = object && Object.hasOwn(object, 'isEvent')
-		&& Object.hasOwn(object, 'title')
-		&& Object.hasOwn(object, 'startHourMilitaryTime')
-		&& Object.hasOwn(object, 'endHourMilitaryTime')
-		&& Object.hasOwn(object, 'isPastEvent')
-		&& Object.hasOwn(object, 'hasStartHourInPost')
-		&& Object.hasOwn(object, 'startMinute')
-		&& Object.hasOwn(object, 'endMinute')
-		&& Object.hasOwn(object, 'startDay')
-		&& Object.hasOwn(object, 'endDay')
-		&& Object.hasOwn(object, 'startMonth')
-		&& Object.hasOwn(object, 'endMonth')
-		&& Object.hasOwn(object, 'startYear')
-		&& Object.hasOwn(object, 'endYear');
-	if (!hasAllProperties) {
-		throw new Error('JSON does not contain expected fields');
-	}
-
-	// Post-processing.
-	if (object.startYear === null) {
-		object.startYear = new Date().getFullYear();
-	}
-	if (object.endYear === null) {
-		object.endYear = object.startYear;
-	}
-	if (object.startMinute === null) {
-		object.startMinute = 0;
-	}
-	if (object.endMinute === null) {
-		object.endMinute = 0;
-	}
-	if (object.startMonth === 12 && object.endMonth === 1) {
-		object.endYear = object.startYear + 1;
-	}
-	if (object.endMonth === null) {
-		object.endMonth = object.startMonth;
-	}
-	if (object.endDay === null) {
-		object.endDay = object.startDay;
-	}
-	if (object.endHourMilitaryTime === null) {
-		// End 2 hours from startHourMilitaryTime
-		object.endHourMilitaryTime = object.startHourMilitaryTime + 2;
-		if (object.endHourMilitaryTime > 23) {
-			object.endHourMilitaryTime -= 24;
-			object.endDay = object.startDay + 1; // Would this overflow the month? Need to check.
+// The events found in the post that have a day and start time. Events keep their position in the model's reply as
+// their index, which is part of their ID.
+function eventsToPersist(inferences: OpenAiInstagramResult[], post: InstagramPost, organizer: InstagramEventOrganizer, version: InstagramExtractionVersion): Prisma.InstagramEventUncheckedCreateInput[] {
+	return [...inferences.entries()].flatMap(([index, inference]) => {
+		const times = instagramEventTimes(inference);
+		if (!times) {
+			return [];
 		}
-	}
 
-	return object;
+		return [{
+			postID: post.id,
+			index,
+			start: times.start,
+			end: times.end,
+			url: post.url,
+			title: `${inference.title} @ ${organizer.username}`,
+			organizerId: post.organizerId,
+			venueName: inference.venueName,
+			venueAddress: inference.venueAddress,
+			price: inference.price,
+			ticketUrl: inference.ticketUrl,
+			ageRestriction: inference.ageRestriction,
+			description: inference.description,
+			extractionPromptVersion: version.promptVersion,
+			extractionModel: version.model,
+		}];
+	});
 }
 
-async function runInferenceOnPost(organizer: InstagramEventOrganizer, post: InstagramPost, ocrResult: string | null): Promise<OpenAiInstagramResult | null> {
+// Returns what the passes of the model found in the post, or null if its replies couldn't be used.
+async function runInferenceOnPost(organizer: InstagramEventOrganizer, post: InstagramPost, ocrResult: string | null): Promise<InstagramExtraction | null> {
 	const initialPrompt = instagramInitialPrompt(organizer, post, ocrResult);
 	logger.debug({ prompt: initialPrompt, organizer: organizer.username, postUrl: post.url }, 'Generated prompt for first round of inference')
 
-	const initialResponse = await executePrompt(openai, initialPrompt);
-	const generatedJson = initialResponse.choices[0].message?.content;
-	if (!generatedJson) {
-		return null;
+	const provider = getLlmProvider();
+	const transcript: InstagramInferenceAttempt[] = [];
+	let verified: VerifiedInstagramResult;
+	try {
+		verified = await extractVerifiedInstagramResult(initialPrompt, json => instagramRepairPrompt(json, post, ocrResult), provider, transcript);
+	} catch (e) {
+		if (e instanceof LlmValidationError) {
+			// The post is left incomplete, so that `fixupInstagramIngestion` tries it again.
+			logger.warn({ organizer: organizer.username, postUrl: post.url, issues: e.issues }, 'Language model replied with invalid JSON for post');
+			return null;
+		}
+		throw e;
+	} finally {
+		await recordInstagramInferenceAttempts(post.id, provider, transcript);
 	}
 
-	// Todo: run verification prompt
-
-	const result = postProcessOpenAiInstagramResponse(generatedJson);
+	if (!verified.result) {
+		logger.warn({ organizer: organizer.username, postUrl: post.url, initial: verified.initial, repaired: verified.repaired }, 'Verification pass disagreed with inference on post');
+	}
 
-	logger.debug({ organizer: organizer.username, postUrl: post.url, result }, 'Performed inference on post')
+	logger.debug({ organizer: organizer.username, postUrl: post.url, verified }, 'Performed inference on post')
 
-	return result;
+	return { verified, version: instagramExtractionVersion(provider) };
 }
 
 function getMediaUrls(post: InstagramApiPost): string[] | null {
@@ -264,27 +226,14 @@ function getMediaUrls(post: InstagramApiPost): string[] | null {
 async function extractTextFromPostImages(post: InstagramPost, images: InstagramImage[]): Promise<string | null> {
 	const text = await fetchOcrResults(images);
 	logger.debug({ text, postID: post.id, postURL: post.url }, 'Performed OCR text extraction on post');
+	await prisma.instagramPost.update({
+		where: { id: post.id },
+		data: { ocrText: text },
+	});
 
 	return text;
 }
 
-export async function getOrInsertOrganizer(source: InstagramSource): Promise<InstagramEventOrganizer> {
-	const organizer = await prisma.instagramEventOrganizer.findUnique({ where: { username: source.username } });
-	if (organizer) {
-		return organizer;
-	}
-
-	return await prisma.instagramEventOrganizer.create({
-		data: {
-			username: source.username,
-			city: source.city,
-			contextClues: source.context_clues.join(' '),
-			// Set lastUpdated to as early as possible so that it will be updated first.
-			lastUpdated: new Date(0),
-		}
-	});
-}
-
 type PostResponse = {
 	post: InstagramPost,
 
@@ -319,28 +268,23 @@ async function persistPostNoneIfPresent(organizer: InstagramEventOrganizer, post
 }
 
 /**
-* Takes a given post, runs extractors on it if it's new, persists it to the
-* database as an Event if extractors determine it's an event
+* Takes a given post, runs extractors on it if it's new, persists the events
+* that extractors find in it to the database
 * @param organizer
 * @param apiPost
 * @returns
 */
-async function handleInstagramPost(organizer: InstagramEventOrganizer, apiPost: InstagramApiPost): Promise<InstagramEvent | null> {
+async function handleInstagramPost(organizer: InstagramEventOrganizer, apiPost: InstagramApiPost): Promise<InstagramEvent[]> {
 	const dbPost = await persistPostNoneIfPresent(organizer, apiPost);
 	if (!dbPost) {
-		return null;
+		return [];
 	}
 
 	const mediaUrls = getMediaUrls(apiPost);
 
 	const images = mediaUrls ? await fetchAndPersistImages(dbPost, mediaUrls) : [];
 
-	const maybeEvent = await extractEventFromPost(organizer, dbPost, images);
-	if (!maybeEvent) {
-		return null;
-	}
-
-	return maybeEvent;
+	return await extractEventsFromPost(organizer, dbPost, images);
 }
 
 async function fetchAndPersistImages(post: InstagramPost, mediaUrls: string[]): Promise<InstagramImage[]> {
@@ -366,23 +310,28 @@ async function fetchAndPersistImage(post: InstagramPost, url: string): Promise<I
 }
 
 async function ingestEventsForOrganizer(organizer: InstagramEventOrganizer): Promise<InstagramEvent[]> {
+	const startedAt = new Date();
+	let httpStatus: number | undefined;
 	try {
-		const posts = await fetchPosts(organizer);
+		const { status, posts } = await fetchPosts(organizer);
+		httpStatus = status;
 
-		const maybeEvents = await Promise.all(posts.map(post => handleInstagramPost(organizer, post)));
-
-		const events: InstagramEvent[] = [];
-		for (let maybeEvent of maybeEvents) {
-			if (maybeEvent) {
-				events.push(maybeEvent);
-			}
-		}
+		const eventsByPost = await Promise.all(posts.map(post => handleInstagramPost(organizer, post)));
+		const events = eventsByPost.flat();
 
 		await prisma.instagramEventOrganizer.update({ where: { id: organizer.id }, data: { lastUpdated: new Date() } });
 
+		await recordScrapeRun({ instagramOrganizerId: organizer.id }, {
+			startedAt,
+			httpStatus,
+			eventsFound: posts.length,
+			eventsNew: events.length,
+		});
+
 		return events;
 	} catch (e: any) {
 		logger.error({ error: e.toString(), organizer: organizer.username }, 'error ingesting for organizer')
+		await recordScrapeRun({ instagramOrganizerId: organizer.id }, { startedAt, httpStatus, ...scrapeRunError(e) });
 		return [];
 	}
 }
@@ -408,15 +357,21 @@ export async function scrapeInstagram(opts?: ScrapeOptions) {
 		where: {
 			username: opts?.username,
 			lastUpdated,
+			// Disabled organizers can still be scraped on purpose.
+			disabled: opts?.username === undefined ? false : undefined,
 		}
 	})
 
+	const newEvents: InstagramEvent[] = [];
 	const countsByOrganizer = await Promise.all(organizers.map(async organizer => {
 		const events = await ingestEventsForOrganizer(organizer);
+		newEvents.push(...events);
 
 		return { organizer, eventCount: events.length };
 	}));
 
+	await clusterNewEvents(newEvents.map(e => ({ kind: 'instagram', postID: e.postID, index: e.index })));
+
 	logger.info({ countsByOrganizer, opts }, 'Completed Instagram data ingestion');
 
 	return countsByOrganizer;
@@ -439,28 +394,27 @@ export async function fixupInstagramIngestion(opts?: FixupOptions) {
 	const incompletePosts = await prisma.instagramPost.findMany({
 		where: {
 			completedAt: null,
-			InstagramEvent: null,
+			events: { none: {} },
 			...extraCriteria,
 		},
 		include: {
 			organizer: true,
-			InstagramEvent: true,
 			images: true,
 		},
 	});
 
 	logger.debug({ incompletePosts, opts }, 'Fixing up posts');
 
-	let eventCount = 0;
+	const newEvents: InstagramEvent[] = [];
 	await Promise.all(incompletePosts.map(async post => {
-		if (await extractEventFromPost(post.organizer, post, post.images)) {
-			eventCount += 1;
-		}
+		newEvents.push(...await extractEventsFromPost(post.organizer, post, post.images));
 	}));
 
+	await clusterNewEvents(newEvents.map(e => ({ kind: 'instagram', postID: e.postID, index: e.index })));
+
 	return {
 		posts: incompletePosts.length,
-		events: eventCount,
+		events: newEvents.length,
 	};
 }
 
@@ -0,0 +1,184 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { OpenAiProvider } from './llm/openai';
+import { StubProvider } from './llm/stub';
+
+const logger = mainLogger.child({ provider: 'llm' });
+
+export const LLM_PROVIDERS = ['openai', 'openai-compatible', 'stub'] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LlmMessage {
+	role: 'system' | 'user' | 'assistant'
+	content: string
+}
+
+// A JSON schema that the reply has to follow, for providers that support structured output.
+export interface LlmJsonSchema {
+	name: string
+	description: string
+	schema: Record<string, unknown>
+}
+
+export interface LlmCompletionOptions {
+	schema?: LlmJsonSchema
+}
+
+export interface LlmUsage {
+	promptTokens: number
+	completionTokens: number
+	totalTokens: number
+}
+
+export interface LlmReply {
+	// The model's reply, or null if it didn't reply with any text. Given a schema, the reply is its JSON.
+	content: string | null
+	// The model that replied, as reported by the provider.
+	model: string
+	// How many tokens the request used, if the provider reports it.
+	usage: LlmUsage | null
+}
+
+// One request of `completeValidated`, kept so that we can tell why a post was misread without asking the model again.
+export interface LlmAttempt {
+	messages: LlmMessage[]
+	reply: LlmReply
+	// What was wrong with the reply, or null if it was valid.
+	issues: string[] | null
+}
+
+export interface CompleteValidatedOptions {
+	provider?: LlmProvider
+	maxAttempts?: number
+	// Each request is appended to it, including the ones with invalid replies.
+	transcript?: LlmAttempt[]
+}
+
+// The language model that extracts events from Instagram posts, see `LLM_PROVIDER` in the README.
+export interface LlmProvider {
+	name: LlmProviderName
+	// The configured model, which events record so that they can be extracted again when it changes.
+	model: string
+
+	complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmReply>
+}
+
+// Thrown when a reply isn't what the prompt asked for. The issues are told to the model when it's asked again.
+export class LlmValidationError extends Error {
+	constructor(public issues: string[]) {
+		super(issues.join('; '));
+		this.name = 'LlmValidationError';
+	}
+}
+
+export interface LlmConfig {
+	provider: LlmProviderName
+	model: string
+	temperature: number
+	maxTokens: number
+	// The API of `openai-compatible` providers, e.g. http://localhost:11434/v1 for Ollama.
+	baseUrl: string | null
+	apiKey: string | null
+}
+
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+	const provider = env.LLM_PROVIDER || 'openai';
+	if (!(LLM_PROVIDERS as readonly string[]).includes(provider)) {
+		throw new Error(`LLM_PROVIDER must be one of ${LLM_PROVIDERS.join(', ')}, not ${provider}.`);
+	}
+
+	const config: LlmConfig = {
+		provider: provider as LlmProviderName,
+		model: env.LLM_MODEL || 'gpt-3.5-turbo',
+		temperature: parseNumber(env.LLM_TEMPERATURE, 'LLM_TEMPERATURE', 0),
+		maxTokens: parseNumber(env.LLM_MAX_TOKENS, 'LLM_MAX_TOKENS', 2000),
+		baseUrl: env.LLM_BASE_URL || null,
+		apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || null,
+	};
+
+	if (config.provider === 'openai' && !config.apiKey) {
+		throw new Error('OPENAI_API_KEY not found.');
+	}
+	if (config.provider === 'openai-compatible' && !config.baseUrl) {
+		throw new Error('LLM_BASE_URL must be set for the openai-compatible provider.');
+	}
+
+	return config;
+}
+
+function parseNumber(value: string | undefined, name: string, defaultValue: number): number {
+	if (value === undefined || value === '') {
+		return defaultValue;
+	}
+
+	const number = Number(value);
+	if (isNaN(number) || number < 0) {
+		throw new Error(`${name} must be a non-negative number, not ${value}.`);
+	}
+
+	return number;
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+	switch (config.provider) {
+		case 'openai':
+		case 'openai-compatible':
+			return new OpenAiProvider(config);
+		case 'stub':
+			return new StubProvider();
+	}
+}
+
+let provider: LlmProvider | null = null;
+
+// The provider is created the first time it's needed rather than on startup, so that the site runs without any
+// language model configured, only Instagram scrapes fail.
+export function getLlmProvider(): LlmProvider {
+	if (!provider) {
+		const config = llmConfigFromEnv();
+		logger.info({ provider: config.provider, model: config.model, baseUrl: config.baseUrl }, 'Using language model');
+		provider = createLlmProvider(config);
+	}
+
+	return provider;
+}
+
+// Asks the model until its reply passes `validate`, telling it what was wrong with its previous reply each time. Throws
+// the last `LlmValidationError` if none of the replies were valid.
+export async function completeValidated<T>(
+	messages: LlmMessage[],
+	schema: LlmJsonSchema,
+	validate: (reply: string) => T,
+	{ provider = getLlmProvider(), maxAttempts = 3, transcript = [] }: CompleteValidatedOptions = {},
+): Promise<T> {
+	const conversation = [...messages];
+	let lastError: LlmValidationError | undefined;
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		const sent = [...conversation];
+		const reply = await provider.complete(sent, { schema });
+
+		try {
+			if (reply.content === null) {
+				throw new LlmValidationError(['The reply was empty']);
+			}
+
+			const result = validate(reply.content);
+			transcript.push({ messages: sent, reply, issues: null });
+			return result;
+		} catch (e) {
+			if (!(e instanceof LlmValidationError)) {
+				throw e;
+			}
+
+			logger.warn({ schema: schema.name, attempt, issues: e.issues, reply: reply.content }, 'Invalid reply from language model');
+			transcript.push({ messages: sent, reply, issues: e.issues });
+			lastError = e;
+			conversation.push(
+				{ role: 'assistant', content: reply.content ?? '' },
+				{ role: 'user', content: `Your reply was invalid:\n${e.issues.map(issue => `- ${issue}`).join('\n')}\nReply with only the corrected JSON.` },
+			);
+		}
+	}
+
+	throw lastError!;
+}
@@ -0,0 +1,67 @@
+import { ChatCompletionResponseMessage, Configuration, CreateChatCompletionRequest, OpenAIApi } from 'openai';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import type { LlmCompletionOptions, LlmConfig, LlmMessage, LlmProvider, LlmReply } from '../llm';
+
+const logger = mainLogger.child({ provider: 'openai' });
+
+// Structured output isn't in the types of our version of the SDK, but it sends the request as is.
+type StructuredChatCompletionRequest = CreateChatCompletionRequest & {
+	functions?: { name: string, description: string, parameters: Record<string, unknown> }[]
+	function_call?: { name: string }
+	response_format?: { type: 'json_schema', json_schema: { name: string, schema: Record<string, unknown> } }
+};
+type StructuredChatCompletionResponseMessage = ChatCompletionResponseMessage & {
+	function_call?: { name: string, arguments: string }
+};
+
+// OpenAI itself, or any server with the same chat completions API, like llama.cpp, Ollama or vLLM.
+export class OpenAiProvider implements LlmProvider {
+	name: LlmConfig['provider'];
+	model: string;
+	private client: OpenAIApi;
+
+	constructor(private config: LlmConfig) {
+		this.name = config.provider;
+		this.model = config.model;
+		this.client = new OpenAIApi(new Configuration({
+			// Local servers usually don't check the key, but the SDK needs one.
+			apiKey: config.apiKey ?? 'none',
+			basePath: config.baseUrl ?? undefined,
+		}));
+	}
+
+	async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmReply> {
+		const request: StructuredChatCompletionRequest = {
+			model: this.config.model,
+			messages,
+			temperature: this.config.temperature,
+			max_tokens: this.config.maxTokens,
+		};
+
+		const { schema } = options;
+		if (schema && this.config.provider === 'openai') {
+			// Function calling is what OpenAI's older chat models support.
+			request.functions = [{ name: schema.name, description: schema.description, parameters: schema.schema }];
+			request.function_call = { name: schema.name };
+		} else if (schema) {
+			// llama.cpp, Ollama and vLLM constrain the reply to the schema.
+			request.response_format = { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema } };
+		}
+
+		try {
+			const res = await this.client.createChatCompletion(request);
+			const message: StructuredChatCompletionResponseMessage | undefined = res.data.choices[0]?.message;
+
+			const { usage } = res.data;
+
+			return {
+				content: message?.function_call?.arguments ?? message?.content ?? null,
+				model: res.data.model ?? this.config.model,
+				usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens } : null,
+			};
+		} catch (error: any) {
+			logger.error({ error: error.toString(), model: this.config.model, baseUrl: this.config.baseUrl }, 'Error running language model');
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,17 @@
+import type { LlmCompletionOptions, LlmMessage, LlmProvider, LlmReply } from '../llm';
+
+// What the stub replies when `LLM_STUB_RESPONSE` isn't set: a post that isn't about an event.
+const NOT_AN_EVENT = JSON.stringify({ events: [] });
+
+// Replies without calling any model, for development without an API key and for tests. The reply is the same for
+// every prompt, unless a function is given to compute it.
+export class StubProvider implements LlmProvider {
+	name = 'stub' as const;
+	model = 'stub';
+
+	constructor(private reply: (messages: LlmMessage[], options: LlmCompletionOptions) => string | null = () => process.env.LLM_STUB_RESPONSE ?? NOT_AN_EVENT) {}
+
+	async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmReply> {
+		return { content: this.reply(messages, options), model: 'stub', usage: null };
+	}
+}
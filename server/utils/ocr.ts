@@ -0,0 +1,79 @@
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { GoogleVisionOcrProvider } from './ocr/google-vision';
+import { StubOcrProvider } from './ocr/stub';
+import { TesseractOcrProvider } from './ocr/tesseract';
+
+const logger = mainLogger.child({ provider: 'ocr' });
+
+export const OCR_PROVIDERS = ['google-vision', 'tesseract', 'stub'] as const;
+export type OcrProviderName = typeof OCR_PROVIDERS[number];
+
+// What reads the text in the images of Instagram posts, see `OCR_PROVIDER` in the README.
+export interface OcrProvider {
+	name: OcrProviderName
+
+	// Returns the text in the image, or an empty string if there is none.
+	recognize(image: Buffer): Promise<string>
+}
+
+export interface OcrConfig {
+	provider: OcrProviderName
+	googleVision: { privateKey: string, clientEmail: string } | null
+	// The `tesseract` command, and the languages of its trained data, e.g. `eng+spa`.
+	tesseractPath: string
+	tesseractLanguages: string
+}
+
+export function ocrConfigFromEnv(env: NodeJS.ProcessEnv = process.env): OcrConfig {
+	const provider = env.OCR_PROVIDER || 'google-vision';
+	if (!(OCR_PROVIDERS as readonly string[]).includes(provider)) {
+		throw new Error(`OCR_PROVIDER must be one of ${OCR_PROVIDERS.join(', ')}, not ${provider}.`);
+	}
+
+	const config: OcrConfig = {
+		provider: provider as OcrProviderName,
+		googleVision: null,
+		tesseractPath: env.TESSERACT_PATH || 'tesseract',
+		tesseractLanguages: env.TESSERACT_LANGUAGES || 'eng',
+	};
+
+	if (config.provider === 'google-vision') {
+		if (!env.GOOGLE_CLOUD_VISION_PRIVATE_KEY) {
+			throw new Error('GOOGLE_CLOUD_VISION_PRIVATE_KEY not found.');
+		}
+		if (!env.GOOGLE_CLOUD_VISION_CLIENT_EMAIL) {
+			throw new Error('GOOGLE_CLOUD_VISION_CLIENT_EMAIL not found.');
+		}
+		config.googleVision = {
+			privateKey: env.GOOGLE_CLOUD_VISION_PRIVATE_KEY.replace(/\\n/g, '\n'),
+			clientEmail: env.GOOGLE_CLOUD_VISION_CLIENT_EMAIL,
+		};
+	}
+
+	return config;
+}
+
+export function createOcrProvider(config: OcrConfig): OcrProvider {
+	switch (config.provider) {
+		case 'google-vision':
+			return new GoogleVisionOcrProvider(config.googleVision!);
+		case 'tesseract':
+			return new TesseractOcrProvider(config.tesseractPath, config.tesseractLanguages);
+		case 'stub':
+			return new StubOcrProvider();
+	}
+}
+
+let provider: OcrProvider | null = null;
+
+// Like the language model, the provider is created the first time it's needed, so that only Instagram scrapes fail when
+// it isn't configured.
+export function getOcrProvider(): OcrProvider {
+	if (!provider) {
+		const config = ocrConfigFromEnv();
+		logger.info({ provider: config.provider }, 'Using OCR provider');
+		provider = createOcrProvider(config);
+	}
+
+	return provider;
+}
@@ -0,0 +1,25 @@
+import vision from '@google-cloud/vision';
+import type { OcrProvider } from '../ocr';
+
+// Google Cloud Vision's text detection, which makes a request per image.
+export class GoogleVisionOcrProvider implements OcrProvider {
+	name = 'google-vision' as const;
+	private client: InstanceType<typeof vision.ImageAnnotatorClient>;
+
+	constructor(credentials: { privateKey: string, clientEmail: string }) {
+		this.client = new vision.ImageAnnotatorClient({
+			scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+			credentials: {
+				private_key: credentials.privateKey,
+				client_email: credentials.clientEmail,
+			},
+		});
+	}
+
+	async recognize(image: Buffer): Promise<string> {
+		const [result] = await this.client.textDetection(image);
+
+		return (result.textAnnotations && result.textAnnotations.length > 0) ?
+			result.fullTextAnnotation?.text || '' : '';
+	}
+}
@@ -0,0 +1,13 @@
+import type { OcrProvider } from '../ocr';
+
+// Finds the same text in every image without running any OCR, for development and for tests. The text is
+// `OCR_STUB_TEXT`, or none if that isn't set, unless a function is given to compute it.
+export class StubOcrProvider implements OcrProvider {
+	name = 'stub' as const;
+
+	constructor(private text: (image: Buffer) => string = () => process.env.OCR_STUB_TEXT ?? '') {}
+
+	async recognize(image: Buffer): Promise<string> {
+		return this.text(image);
+	}
+}
@@ -0,0 +1,42 @@
+import { spawn } from 'node:child_process';
+import type { OcrProvider } from '../ocr';
+
+// Tesseract reads most images in a few seconds. Ones that it gets stuck on would otherwise hold up the scrape forever.
+const TIMEOUT_MS = 60_000;
+
+// Runs the Tesseract command line tool on this machine, so that no image leaves it. The image is passed on stdin and
+// the text is read from stdout.
+export class TesseractOcrProvider implements OcrProvider {
+	name = 'tesseract' as const;
+
+	constructor(private path: string, private languages: string, private timeoutMs = TIMEOUT_MS) {}
+
+	recognize(image: Buffer): Promise<string> {
+		return new Promise((resolve, reject) => {
+			// Node kills the child once the timeout has passed.
+			const child = spawn(this.path, ['stdin', 'stdout', '-l', this.languages], { timeout: this.timeoutMs });
+			const stdout: Buffer[] = [];
+			const stderr: Buffer[] = [];
+
+			child.stdout.on('data', chunk => stdout.push(chunk));
+			child.stderr.on('data', chunk => stderr.push(chunk));
+			child.on('error', reject);
+			child.on('close', code => {
+				if (child.killed) {
+					reject(new Error(`${this.path} did not finish within ${this.timeoutMs}ms`));
+					return;
+				}
+				if (code !== 0) {
+					reject(new Error(`${this.path} exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+					return;
+				}
+
+				resolve(Buffer.concat(stdout).toString().trim());
+			});
+
+			// Tesseract may exit before reading all of an image that it can't decode.
+			child.stdin.on('error', () => {});
+			child.stdin.end(image);
+		});
+	}
+}
@@ -1,6 +1,4 @@
 import { InstagramEventOrganizer, InstagramPost } from "@prisma/client";
-import { OpenAIApi } from "openai";
-import { logger } from "./logger";
 
 export interface OpenAiInstagramResult {
 	isEvent: boolean;
@@ -17,8 +15,23 @@ export interface OpenAiInstagramResult {
 	endMonth: number | null;
 	startYear: number | null;
 	endYear: number | null;
+	venueName: string | null;
+	venueAddress: string | null;
+	price: string | null;
+	ticketUrl: string | null;
+	ageRestriction: string | null;
+	description: string | null;
 }
 
+// What the model replies with for a post: one result for each event in it, none if it isn't about an event.
+export interface OpenAiInstagramPostResult {
+	events: OpenAiInstagramResult[];
+}
+
+// Bump this when changing the prompts below, so that posts can be extracted again with the new prompts, see
+// `server/utils/instagram-reextraction.ts`.
+export const INSTAGRAM_PROMPT_VERSION = 1;
+
 export function instagramInitialPrompt(organizer: InstagramEventOrganizer, post: InstagramPost, ocrResult: string | null): string {
 	const caption = post.caption;
 	const tags = organizer.contextClues;
@@ -35,9 +48,9 @@ export function instagramInitialPrompt(organizer: InstagramEventOrganizer, post:
 		`${ocrResult ? "OCR Result: " + ocrResult : ''}` + "\n" +
 		"```\n" +
 		"\n" +
-		"Output the results in the following JSON format: \n" +
+		"Output the results in the following JSON format, with one object in `events` for each event in the post: \n" +
 		"```\n" +
-		`{\n` +
+		`{ "events": [{\n` +
 		`"isEvent": boolean,\n` +
 		`"title": string | null,\n` +
 		`"startDay": number | null,\n` +
@@ -53,7 +66,13 @@ export function instagramInitialPrompt(organizer: InstagramEventOrganizer, post:
 		`"endMonth": number | null,\n` +
 		`"startYear": number | null,\n` +
 		`"endYear": number | null,\n` +
-		` }\n` +
+		`"venueName": string | null,\n` +
+		`"venueAddress": string | null,\n` +
+		`"price": string | null,\n` +
+		`"ticketUrl": string | null,\n` +
+		`"ageRestriction": string | null,\n` +
+		`"description": string | null,\n` +
+		` }] }\n` +
 		"```\n" +
 		// "Here's some important information regarding the post information:\n" +
 		"Guidelines to follow when creating the JSON:\n" +
@@ -81,8 +100,14 @@ export function instagramInitialPrompt(organizer: InstagramEventOrganizer, post:
 		"- Don't make any timezone-related adjustments to the times; assume it is UTC already.\n" +
 		"- Don't add any extra capitalization or spacing to the title that wasn't included in the post's information.\n" +
 		"- If the title of the event is longer than 210 characters, shorten it to include just the most important parts.\n" +
+		"- Assign `venueName` and `venueAddress` to the name and street address of where the event happens, as written in the post, or `null` if the post doesn't say. Don't guess an address from the venue's name.\n" +
+		"- Assign `price` to the price of entry as written in the post, such as '$10-20 sliding scale' or 'free', or `null` if the post doesn't say.\n" +
+		"- Assign `ticketUrl` to a full link (starting with https://) for tickets or RSVPs only if the post contains one, otherwise `null`. Don't make up links.\n" +
+		"- Assign `ageRestriction` to the minimum age as written in the post, such as '21+' or '18+', or `null` if the post doesn't say.\n" +
+		"- Assign `description` to one or two sentences, at most 300 characters, about what happens at the event, or `null` if the post doesn't say.\n" +
+		"- If the post contains multiple different events, such as a monthly lineup or a tour, output one object for each event, in the order they happen. Each object has the title, day and times of its own event.\n" +
+		"- If the post isn't about an event, output an empty list of events.\n" +
 		// The following is to avoid organizer meetings.
-		"- If post contains multiple different events, only output the result for the earliest event.\n" +
 		"- If the event is explicity 'private', or a 'meeting', then set the start hour to null.\n" +
 		`${tags.toLowerCase().includes('music') ? "- Add \`&\` in between multiple music artist names, if any exist.\n" : ""}` +
 		`${tags.toLowerCase().includes('music') ? "- Include featured music artists in the title as well.\n" : ""}` +
@@ -110,8 +135,14 @@ export function instagramRepairPrompt(modelOutputJson: string, post: InstagramPo
 		`${ocrResult ? "OCR Result: " + ocrResult : ''}` + "\n" +
 		"```\n" +
 		"\n" +
-		"Your job is to fix potential incorrect values for `hasStartHourInPost` in the generated JSON's values with respect to the post's information (via caption & OCR result), and output a corrected JSON. In particular, set `hasStartHourInPost` to false if the post's information doesn't contain any identifiable hour information or hour-conveying time-of-day information, disregarding whether it has a starting date. Conversely, set it to true if it does contain hour information." +
-		"Don't edit any other fields besides `hasStartHourInPost`. Make sure to not change the structure of the JSON. Only output the raw JSON (in a valid format), without saying anything else. Here are some examples to help guide you." + "\n" +
+		`The post was posted on ${post.postDate.toDateString()}.\n` +
+		"\n" +
+		"Your job is to verify the generated JSON against the post's information (via caption & OCR result), fix any incorrect values, and output the corrected JSON. Check the following:\n" +
+		"- `hasStartHourInPost`: set it to false if the post's information doesn't contain any identifiable hour information or hour-conveying time-of-day information, disregarding whether it has a starting date. Conversely, set it to true if it does contain hour information.\n" +
+		"- The start and end days, months and years: they must be the dates that the post gives for the event, or that follow from relative wording like 'tomorrow' or 'this Saturday' counted from the day the post was posted. Set them to null if the post doesn't give them.\n" +
+		"- `title`: it must be the name of the event as written in the post, without extra capitalization or spacing.\n" +
+		"- `events`: there must be one object for each different event in the post, in the order they happen. Add the events that are missing, and remove the ones that aren't in the post.\n" +
+		"If every value is correct, output the JSON unchanged. Make sure to not change the structure of the JSON. Only output the raw JSON (in a valid format), without saying anything else. Here are some examples to help guide you." + "\n" +
 		"\n" +
 		`Input: The post's caption and OCR don't contain any hour-conveying info.` + "\n" +
 		`Output: The JSON with "hasStartHourInPost" set to \`false\`.` + "\n" +
@@ -123,22 +154,8 @@ export function instagramRepairPrompt(modelOutputJson: string, post: InstagramPo
 		`Output: The JSON with "hasStartHourInPost" set to \`false\` because "tonight" does not represent a specific hour.` + "\n" +
 		"\n" +
 		`Input: The post's OCR says "midnight"` + "\n" +
-		`Output: The JSON with "hasStartHourInPost" set to \`true\` because "midnight" represents 12 AM.`;
+		`Output: The JSON with "hasStartHourInPost" set to \`true\` because "midnight" represents 12 AM.` + "\n" +
+		"\n" +
+		`Input: The post was posted on a Monday, the JSON has "startDay" 3 and the caption says "this Friday the 7th".` + "\n" +
+		`Output: The JSON with "startDay" set to \`7\`.`;
 }
-
-export async function executePrompt(client: OpenAIApi, prompt: string) {
-	try {
-		const res = await client.createChatCompletion({
-			model: "gpt-3.5-turbo",
-			messages: [
-				{ role: "system", content: prompt },
-			],
-			temperature: 0,
-			max_tokens: 500,
-		});
-		return res.data;
-	} catch (error: any) {
-		logger.error({ error: error.toString() }, 'Error running gpt');
-		throw error;
-	}
-};
@@ -0,0 +1,125 @@
+import { H3Event } from 'h3';
+import { prisma } from '~~/server/utils/db';
+import { normalizeVenue } from '~~/server/utils/events';
+import { dryRunScrape, Fetch, UrlEventInit } from '~~/server/utils/http';
+import { parseUrlSourceSettings } from '~~/server/utils/source-registry';
+import { UrlSourceSettings } from '~~/types';
+
+// Something about a scraped event that would make it show up wrong, or not at all.
+export interface ScrapeWarning {
+	// The index of the event in the scraper's output.
+	index: number
+	externalId: string | null
+	title: string | null
+	message: string
+}
+
+// What `/api/admin/sources/preview` returns.
+export interface ScrapePreview {
+	settings: UrlSourceSettings
+	// Sorted by start, events with invalid dates last.
+	events: UrlEventInit[]
+	warnings: ScrapeWarning[]
+}
+
+// Scrapes a source without storing anything, for debugging scrapers and new sources. See `dryRunScrape` for `fetchUrl`.
+export async function previewScrape(settings: UrlSourceSettings, fetchUrl?: Fetch): Promise<ScrapePreview> {
+	const scraped = await dryRunScrape(settings, fetchUrl);
+
+	const events = scraped
+		.map(e => ({ ...e, start: new Date(e.start), end: new Date(e.end) }))
+		.sort((a, b) => sortableTime(a.start) - sortableTime(b.start));
+
+	return { settings, events, warnings: findWarnings(scraped) };
+}
+
+function sortableTime(date: Date): number {
+	return isNaN(date.getTime()) ? Infinity : date.getTime();
+}
+
+// The warnings are about the scraper's output before its dates are parsed, so that missing dates can be told apart from
+// invalid ones.
+function findWarnings(events: UrlEventInit[]): ScrapeWarning[] {
+	const warnings: ScrapeWarning[] = [];
+	const seenIds = new Set<string>();
+
+	events.forEach((event, index) => {
+		const warn = (message: string) => warnings.push({
+			index,
+			externalId: event.externalId ?? null,
+			title: event.title ?? null,
+			message,
+		});
+
+		if (!event.externalId) {
+			warn('Missing externalId, the event will be inserted again on every scrape');
+		} else if (seenIds.has(event.externalId)) {
+			warn('Duplicate externalId, only one of the events with it will be stored');
+		} else {
+			seenIds.add(event.externalId);
+		}
+
+		if (!event.title) {
+			warn('Missing title');
+		}
+		if (!event.url) {
+			warn('Missing url');
+		}
+
+		const start = new Date(event.start);
+		const end = new Date(event.end);
+		if (event.start === undefined || event.start === null) {
+			warn('Missing start time');
+		} else if (isNaN(start.getTime())) {
+			warn(`Invalid start time ${JSON.stringify(event.start)}`);
+		}
+		if (event.end === undefined || event.end === null) {
+			warn('Missing end time');
+		} else if (isNaN(end.getTime())) {
+			warn(`Invalid end time ${JSON.stringify(event.end)}`);
+		} else if (end.getTime() === start.getTime()) {
+			warn('End time is the same as the start time, the source probably has no end time');
+		} else if (end < start) {
+			warn('End time is before the start time');
+		}
+
+		if (!normalizeVenue(event.extendedProps?.location?.eventVenue)) {
+			warn('Missing venue');
+		}
+	});
+
+	return warnings;
+}
+
+// The source to preview is either a stored source, `{ "sourceId": 12 }`, or given like the body of
+// `/api/admin/sources/url`, in which case its name and city are optional.
+export async function readScrapePreviewSettings(event: H3Event): Promise<UrlSourceSettings> {
+	const body = await readBody(event);
+
+	if (body?.sourceId !== undefined) {
+		if (!Number.isInteger(body.sourceId)) {
+			throw createError({
+				statusCode: 400,
+				message: 'sourceId must be an integer',
+			});
+		}
+
+		const source = await prisma.urlSource.findUnique({ where: { id: body.sourceId } });
+		if (!source) {
+			throw createError({
+				statusCode: 404,
+				message: `URL source ${body.sourceId} does not exist`,
+			});
+		}
+
+		return {
+			sourceType: source.sourceType,
+			sourceName: source.sourceName,
+			sourceCity: source.sourceCity,
+			url: source.url,
+			sourceID: source.sourceID,
+		};
+	}
+
+	return parseUrlSourceSettings({ sourceName: 'Preview', sourceCity: 'Preview', ...body });
+}
@@ -0,0 +1,172 @@
+import { DateTime } from 'luxon';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { INSTAGRAM_SOURCE_TYPE } from '~~/server/utils/events';
+import { SourceHealth } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'scrape-runs' });
+
+// How many of the most recent runs of each source the health dashboard shows.
+const HISTORY_LENGTH = 48;
+// Runs older than this are deleted, since every scheduled scrape adds one for each source.
+const RETENTION_DAYS = 90;
+
+// Thrown when a source responds with an error status, so that the status ends up in the source's `ScrapeRun`.
+export class HttpError extends Error {
+	constructor(public status: number, message: string) {
+		super(message);
+		this.name = 'HttpError';
+	}
+}
+
+export interface ScrapeRunInit {
+	startedAt: Date
+	httpStatus?: number | null
+	notModified?: boolean
+	eventsFound?: number
+	eventsNew?: number
+	eventsUpdated?: number
+	eventsCancelled?: number
+	error?: string | null
+	errorStack?: string | null
+}
+
+export type ScrapeRunTarget = { urlSourceId: number } | { instagramOrganizerId: number };
+
+// Records that a scrape of the given source finished just now, and deletes the source's runs that are older than we
+// keep. Failing to record a run is logged rather than thrown, so that it never breaks the scrape itself.
+export async function recordScrapeRun(target: ScrapeRunTarget, run: ScrapeRunInit) {
+	try {
+		await prisma.scrapeRun.create({
+			data: {
+				...target,
+				...run,
+				finishedAt: new Date(),
+			},
+		});
+		await prisma.scrapeRun.deleteMany({
+			where: {
+				...target,
+				startedAt: { lt: DateTime.now().minus({ days: RETENTION_DAYS }).toJSDate() },
+			},
+		});
+	} catch (e: any) {
+		logger.error({ error: e.toString(), stack: e.stack, target }, 'Failed to record scrape run');
+	}
+}
+
+// Turns a caught error into the error fields of a `ScrapeRunInit`. Only sets `httpStatus` for `HttpError`s, so that it
+// can be spread over a run that already has one.
+export function scrapeRunError(error: any): Pick<ScrapeRunInit, 'httpStatus' | 'error' | 'errorStack'> {
+	return {
+		...(error instanceof HttpError ? { httpStatus: error.status } : {}),
+		error: error?.toString() ?? 'Unknown error',
+		errorStack: error?.stack ?? null,
+	};
+}
+
+// Summarizes the recent scrapes of every URL source and Instagram organizer, for the admin dashboard.
+export async function fetchSourceHealth(): Promise<SourceHealth[]> {
+	const history = {
+		orderBy: { startedAt: 'desc' },
+		take: HISTORY_LENGTH,
+		select: {
+			startedAt: true,
+			finishedAt: true,
+			httpStatus: true,
+			notModified: true,
+			eventsFound: true,
+			eventsNew: true,
+			eventsUpdated: true,
+			eventsCancelled: true,
+			error: true,
+		},
+	} as const;
+
+	const [sources, organizers] = await Promise.all([
+		prisma.urlSource.findMany({
+			include: {
+				scrapeRuns: history,
+				_count: { select: { events: true } },
+			},
+		}),
+		prisma.instagramEventOrganizer.findMany({
+			include: {
+				scrapeRuns: history,
+				_count: { select: { events: true } },
+			},
+		}),
+	]);
+
+	const targets: { target: ScrapeRunTarget, source: SourceSummary, history: SourceHealth['history'] }[] = [
+		...sources.map(source => ({
+			target: { urlSourceId: source.id },
+			source: {
+				kind: 'url' as const,
+				id: source.id,
+				name: source.sourceName,
+				sourceType: source.sourceType,
+				city: source.sourceCity,
+				storedEvents: source._count.events,
+				disabled: source.disabled,
+			},
+			history: source.scrapeRuns,
+		})),
+		...organizers.map(organizer => ({
+			target: { instagramOrganizerId: organizer.id },
+			source: {
+				kind: 'instagram' as const,
+				id: organizer.id,
+				name: organizer.username,
+				sourceType: INSTAGRAM_SOURCE_TYPE,
+				city: organizer.city,
+				storedEvents: organizer._count.events,
+				disabled: organizer.disabled,
+			},
+			history: organizer.scrapeRuns,
+		})),
+	];
+
+	// The last success may be older than the history that we load.
+	const lastSuccesses = new Map((await prisma.scrapeRun.groupBy({
+		by: ['urlSourceId', 'instagramOrganizerId'],
+		where: { error: null },
+		_max: { startedAt: true },
+	})).map(group => [targetKey(group), group._max.startedAt]));
+
+	// Sources whose whole history failed may have failed for longer than that, their failures are counted in the database.
+	const failing = targets.filter(({ history }) => history.length === HISTORY_LENGTH && history.every(run => run.error));
+	const failureCounts = new Map(failing.length === 0 ? [] : (await prisma.scrapeRun.groupBy({
+		by: ['urlSourceId', 'instagramOrganizerId'],
+		where: {
+			error: { not: null },
+			OR: failing.map(({ target }) => {
+				const lastSuccess = lastSuccesses.get(targetKey(target));
+				return { ...target, startedAt: lastSuccess ? { gt: lastSuccess } : undefined };
+			}),
+		},
+		_count: { _all: true },
+	})).map(group => [targetKey(group), group._count._all]));
+
+	return targets.map(({ target, source, history }) => {
+		const failuresInHistory = history.findIndex(run => !run.error);
+
+		return {
+			...source,
+			lastRunAt: history[0]?.startedAt ?? null,
+			lastSuccessAt: lastSuccesses.get(targetKey(target)) ?? null,
+			consecutiveFailures: failuresInHistory === -1
+				? failureCounts.get(targetKey(target)) ?? history.length
+				: failuresInHistory,
+			lastError: history.find(run => run.error)?.error ?? null,
+			history,
+		};
+	});
+}
+
+type SourceSummary = Pick<SourceHealth, 'kind' | 'id' | 'name' | 'sourceType' | 'city' | 'storedEvents' | 'disabled'>;
+
+// Identifies the source of a run, or of a group of runs.
+function targetKey(target: { urlSourceId?: number | null, instagramOrganizerId?: number | null }): string {
+	return typeof target.urlSourceId === 'number' ? `url-${target.urlSourceId}` : `instagram-${target.instagramOrganizerId}`;
+}
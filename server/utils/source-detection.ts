@@ -0,0 +1,245 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { DetectedSource } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'source-detection' });
+
+// Gives up on sites that take longer than this to respond while probing them.
+const PROBE_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 5;
+
+// Figures out which scraper can scrape what an organizer entered: an Instagram handle, a Google Calendar ID, or the URL
+// of their calendar. URLs of the platforms that we have scrapers for are recognized by their shape, and anything else is
+// fetched to see what it is.
+export async function detectSource(input: string): Promise<DetectedSource> {
+	const trimmed = input.trim();
+
+	const instagramUsername = trimmed.match(/^@([a-z0-9._]+)$/i)?.[1]
+		|| trimmed.match(/^(?:https?:\/\/)?(?:www\.)?instagram\.com\/([a-z0-9._]+)\/?(?:\?.*)?$/i)?.[1];
+	if (instagramUsername) {
+		return { kind: 'instagram', username: instagramUsername.toLowerCase() };
+	}
+
+	if (/^[^\s@/]+@(group\.calendar\.google\.com|gmail\.com)$/i.test(trimmed)) {
+		return googleCalendarSource(trimmed);
+	}
+
+	const url = parseUrl(trimmed);
+	const host = url.hostname.replace(/^www\./, '');
+	const path = url.pathname;
+
+	if (host === 'calendar.google.com') {
+		// Embeds have the ID in `src`, and the public iCal feed in its path.
+		const calendarId = url.searchParams.get('src') || path.match(/\/calendar\/ical\/([^/]+)\//)?.[1];
+		if (calendarId) {
+			return googleCalendarSource(decodeURIComponent(calendarId));
+		}
+	}
+
+	if (/(^|\.)eventbrite\.[a-z.]+$/.test(host)) {
+		// Organizer pages look like /o/some-collective-59091484033.
+		const organizer = path.match(/^\/o\/([^/]*?-?(\d+))\/?$/);
+		if (organizer) {
+			return { kind: 'url', sourceType: 'eventbrite', url: `https://www.eventbrite.com/o/${organizer[1]}`, sourceID: organizer[2] };
+		}
+	}
+
+	if (host === 'tockify.com') {
+		const calname = url.searchParams.get('calname') || path.split('/').filter(Boolean)[0];
+		if (calname && calname !== 'api') {
+			return { kind: 'url', sourceType: 'tockify', url: tockifyUrl(calname), sourceID: null };
+		}
+	}
+
+	if (host.endsWith('time.ly')) {
+		const calendarId = path.match(/\/api\/calendars\/(\d+)/)?.[1];
+		if (calendarId) {
+			return { kind: 'url', sourceType: 'timely', url: `https://timelyapp.time.ly/api/calendars/${calendarId}/events`, sourceID: calendarId };
+		}
+	}
+
+	if (path.includes('/wp-json/tribe/events/v1/events')) {
+		return { kind: 'url', sourceType: 'wordpress-tribe', url: url.toString(), sourceID: null };
+	}
+
+	if (url.searchParams.get('format') === 'json') {
+		return { kind: 'url', sourceType: 'squarespace', url: url.toString(), sourceID: null };
+	}
+
+	if (path.toLowerCase().endsWith('.ics') || /^webcal:/i.test(trimmed)) {
+		return { kind: 'url', sourceType: 'ical', url: url.toString(), sourceID: null };
+	}
+
+	return await probeSource(url);
+}
+
+function googleCalendarSource(calendarId: string): DetectedSource {
+	return {
+		kind: 'url',
+		sourceType: 'google-calendar',
+		url: `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`,
+		sourceID: calendarId,
+	};
+}
+
+function tockifyUrl(calname: string): string {
+	return `https://tockify.com/api/ngevent?max=100&calname=${encodeURIComponent(calname)}&start-inclusive=true&longForm=true&showAll=true`;
+}
+
+function parseUrl(input: string): URL {
+	// `webcal://` only tells calendar apps to subscribe to the feed, the feed itself is served over HTTPS.
+	const withScheme = input.replace(/^webcal:\/\//i, 'https://');
+	try {
+		const url = new URL(/^[a-z]+:\/\//i.test(withScheme) ? withScheme : `https://${withScheme}`);
+		if (url.protocol === 'http:' || url.protocol === 'https:') {
+			return url;
+		}
+	} catch (e) {
+		// Handled below.
+	}
+
+	throw createError({
+		statusCode: 400,
+		message: 'Enter the URL of your calendar, a Google Calendar ID, or an Instagram handle',
+	});
+}
+
+// Fetches a page that isn't on a platform that we recognize by its URL, and looks at what it contains.
+async function probeSource(url: URL): Promise<DetectedSource> {
+	const response = await fetchPublicUrl(url);
+	const contentType = response.headers.get('content-type') || '';
+	const body = await response.text();
+
+	if (contentType.includes('text/calendar') || body.trimStart().startsWith('BEGIN:VCALENDAR')) {
+		return { kind: 'url', sourceType: 'ical', url: response.url || url.toString(), sourceID: null };
+	}
+
+	if (/squarespace/i.test(body)) {
+		const eventsUrl = new URL(response.url || url);
+		eventsUrl.searchParams.set('format', 'json');
+		return { kind: 'url', sourceType: 'squarespace', url: eventsUrl.toString(), sourceID: null };
+	}
+
+	if (body.includes('tribe-events') || body.includes('/wp-json/')) {
+		const tribeUrl = new URL('/wp-json/tribe/events/v1/events?per_page=50', response.url || url);
+		try {
+			const tribeResponse = await fetchPublicUrl(tribeUrl);
+			const json = await tribeResponse.json();
+			if (Array.isArray(json?.events)) {
+				return { kind: 'url', sourceType: 'wordpress-tribe', url: tribeUrl.toString(), sourceID: null };
+			}
+		} catch (e: any) {
+			logger.debug({ url: tribeUrl.toString(), error: e.toString() }, 'WordPress site without the events calendar API');
+		}
+	}
+
+	// Whether the structured data has any events is up to the preview scrape, see `previewSource`.
+	if (body.includes('application/ld+json')) {
+		return { kind: 'url', sourceType: 'json-ld', url: response.url || url.toString(), sourceID: null };
+	}
+
+	throw createError({
+		statusCode: 422,
+		message: "We couldn't find any events on that page. Try the address of your calendar's feed or events page",
+	});
+}
+
+// Fetches a URL that someone outside entered, and throws unless it responds with a success.
+async function fetchPublicUrl(url: URL): Promise<Response> {
+	const response = await fetchPublic(url);
+	if (!response.ok) {
+		throw createError({
+			statusCode: 422,
+			message: `Could not load ${response.url || url.toString()}: ${response.status} ${response.statusText}`,
+		});
+	}
+
+	return response;
+}
+
+// Fetches a URL that someone outside entered, following redirects ourselves so that none of them lead into our own
+// network. Previews of submitted sources make every request of their scrape with this.
+export async function fetchPublic(url: string | URL, init?: RequestInit): Promise<Response> {
+	const start = new URL(url);
+	let current = start;
+	for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+		await assertPublicUrl(current);
+
+		let response: Response;
+		try {
+			response = await fetch(current, { ...init, redirect: 'manual', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+		} catch (e: any) {
+			throw createError({
+				statusCode: 422,
+				message: `Could not load ${current.toString()}: ${e.message}`,
+			});
+		}
+
+		const location = response.headers.get('location');
+		if (response.status >= 300 && response.status < 400 && location) {
+			current = new URL(location, current);
+			continue;
+		}
+
+		return response;
+	}
+
+	throw createError({
+		statusCode: 422,
+		message: `Too many redirects from ${start.toString()}`,
+	});
+}
+
+// Rejects URLs that point at loopback, private or link-local addresses.
+export async function assertPublicUrl(url: URL) {
+	const hostname = url.hostname.replace(/^\[|\]$/g, '');
+	let addresses: string[];
+	try {
+		addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(a => a.address);
+	} catch (e) {
+		throw createError({
+			statusCode: 422,
+			message: `Could not find ${url.hostname}`,
+		});
+	}
+
+	if (addresses.some(isPrivateAddress)) {
+		throw createError({
+			statusCode: 400,
+			message: `${url.hostname} is not a public address`,
+		});
+	}
+}
+
+// Loopback, private, link-local and otherwise reserved addresses. IPv6 addresses that embed an IPv4 address, like
+// `::ffff:7f00:1`, are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+	// The unspecified and loopback addresses, and the deprecated IPv4-compatible ones like `::7f00:1`.
+	['::', 96],
+	['fc00::', 7],
+	['fe80::', 10],
+	['ff00::', 8],
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+	return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
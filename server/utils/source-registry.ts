@@ -0,0 +1,414 @@
+import { H3Event } from 'h3';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { deleteSingletonClusters } from '~~/server/utils/dedup';
+import { generateSourcesFromFile, isUrlScraperType, SourceFile, URL_SOURCE_TYPES } from '~~/server/utils/http';
+import { isValidUrl, optionalString, requiredString } from '~~/server/utils/submissions';
+import eventSourcesJSON from '~~/server/utils/event_sources.json';
+import { InstagramOrganizerSettings, SourceExport, SourceRegistry, UrlSourceSettings } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'source-registry' });
+
+// Sources are entered by admins, this only keeps a request from storing megabytes.
+const MAX_FIELD_LENGTH = 2000;
+
+type UpsertResult = 'created' | 'updated' | 'unchanged';
+type ImportCounts = Record<UpsertResult, number>;
+
+export async function fetchSourceRegistry(): Promise<SourceRegistry> {
+	const [urlSources, instagramOrganizers] = await Promise.all([
+		prisma.urlSource.findMany({ orderBy: [{ sourceType: 'asc' }, { sourceName: 'asc' }] }),
+		prisma.instagramEventOrganizer.findMany({ orderBy: { username: 'asc' } }),
+	]);
+
+	return {
+		sourceTypes: URL_SOURCE_TYPES,
+		urlSources: urlSources.map(source => ({
+			id: source.id,
+			...urlSourceSettings(source),
+			lastScraped: source.lastScraped,
+		})),
+		instagramOrganizers: instagramOrganizers.map(organizer => ({
+			id: organizer.id,
+			...instagramOrganizerSettings(organizer),
+			lastUpdated: organizer.lastUpdated,
+		})),
+	};
+}
+
+export async function exportSources(): Promise<SourceExport> {
+	const registry = await fetchSourceRegistry();
+
+	return {
+		urlSources: registry.urlSources.map(urlSourceSettings),
+		instagramOrganizers: registry.instagramOrganizers.map(instagramOrganizerSettings),
+	};
+}
+
+function urlSourceSettings(source: UrlSourceSettings): UrlSourceSettings {
+	return {
+		sourceType: source.sourceType,
+		sourceName: source.sourceName,
+		sourceCity: source.sourceCity,
+		url: source.url,
+		sourceID: source.sourceID ?? null,
+		disabled: source.disabled ?? false,
+	};
+}
+
+function instagramOrganizerSettings(organizer: InstagramOrganizerSettings): InstagramOrganizerSettings {
+	return {
+		username: organizer.username,
+		name: organizer.name ?? null,
+		city: organizer.city,
+		contextClues: organizer.contextClues,
+		disabled: organizer.disabled ?? false,
+	};
+}
+
+// Creates or updates the sources in a file exported by `exportSources`, or in the format of `event_sources.json`.
+// Sources are matched by their type and URL, and organizers by their username. Sources that aren't in the file are left
+// alone.
+export async function importSources(file: any): Promise<{ urlSources: ImportCounts, instagramOrganizers: ImportCounts }> {
+	if (!file || typeof file !== 'object') {
+		throw createError({
+			statusCode: 400,
+			message: 'Expected a JSON object of sources',
+		});
+	}
+
+	let urlSources: any[];
+	let instagramOrganizers: any[];
+	if (Array.isArray(file.urlSources) || Array.isArray(file.instagramOrganizers)) {
+		urlSources = file.urlSources ?? [];
+		instagramOrganizers = file.instagramOrganizers ?? [];
+	} else {
+		urlSources = generateSourcesFromFile(withAllSections(file));
+		instagramOrganizers = (Array.isArray(file.instagram) ? file.instagram : []).map((source: any) => ({
+			username: source?.username,
+			name: source?.name,
+			city: source?.city,
+			contextClues: Array.isArray(source?.context_clues) ? source.context_clues.join(' ').trim() : '',
+		}));
+	}
+
+	// Validate everything before changing anything.
+	const urlSettings = urlSources.map((source, i) => withIndex('urlSources', i, () => parseUrlSourceSettings(source)));
+	const organizerSettings = instagramOrganizers.map((organizer, i) => withIndex('instagramOrganizers', i, () => parseInstagramOrganizerSettings(organizer)));
+
+	const counts = {
+		urlSources: { created: 0, updated: 0, unchanged: 0 },
+		instagramOrganizers: { created: 0, updated: 0, unchanged: 0 },
+	};
+	for (let settings of urlSettings) {
+		counts.urlSources[await upsertUrlSource(settings)]++;
+	}
+	for (let settings of organizerSettings) {
+		counts.instagramOrganizers[await upsertInstagramOrganizer(settings)]++;
+	}
+
+	logger.info(counts, 'Imported sources');
+
+	return counts;
+}
+
+// Scrapers expect every section of `event_sources.json` to be there.
+function withAllSections(file: any): SourceFile {
+	return Object.fromEntries(Object.keys(eventSourcesJSON).map(key => [key, Array.isArray(file[key]) ? file[key] : []])) as SourceFile;
+}
+
+function withIndex<T>(list: string, index: number, parse: () => T): T {
+	try {
+		return parse();
+	} catch (e: any) {
+		throw createError({
+			statusCode: 400,
+			message: `${list}[${index}]: ${e.message}`,
+		});
+	}
+}
+
+let seeding: Promise<void> | null = null;
+
+// Fills an empty database with the sources in `event_sources.json`, so that a fresh development database has something
+// to scrape. Once there are sources, they're managed on `/admin/sources` instead.
+export function seedSourcesIfEmpty(): Promise<void> {
+	if (!seeding) {
+		seeding = seedSources();
+	}
+
+	return seeding;
+}
+
+async function seedSources() {
+	const [urlSourceCount, organizerCount] = await Promise.all([
+		prisma.urlSource.count(),
+		prisma.instagramEventOrganizer.count(),
+	]);
+	if (urlSourceCount > 0 || organizerCount > 0) {
+		return;
+	}
+
+	logger.info('No sources found, importing event_sources.json');
+	await importSources(eventSourcesJSON);
+}
+
+async function upsertUrlSource(settings: UrlSourceSettings): Promise<UpsertResult> {
+	const existing = await prisma.urlSource.findUnique({
+		where: { sourceType_url: { sourceType: settings.sourceType, url: settings.url } },
+	});
+	if (!existing) {
+		await createUrlSource(settings);
+		return 'created';
+	}
+
+	if (!hasChanges(existing, settings)) {
+		return 'unchanged';
+	}
+
+	await prisma.urlSource.update({ where: { id: existing.id }, data: settings });
+	return 'updated';
+}
+
+async function upsertInstagramOrganizer(settings: InstagramOrganizerSettings): Promise<UpsertResult> {
+	const existing = await prisma.instagramEventOrganizer.findUnique({ where: { username: settings.username } });
+	if (!existing) {
+		await createInstagramOrganizer(settings);
+		return 'created';
+	}
+
+	if (!hasChanges(existing, settings)) {
+		return 'unchanged';
+	}
+
+	await prisma.instagramEventOrganizer.update({ where: { id: existing.id }, data: settings });
+	return 'updated';
+}
+
+// Settings that are left undefined keep their stored value.
+function hasChanges<T extends object>(existing: T, settings: Partial<T>): boolean {
+	return (Object.keys(settings) as (keyof T)[]).some(key => settings[key] !== undefined && settings[key] !== existing[key]);
+}
+
+export async function createUrlSource(settings: UrlSourceSettings) {
+	const existing = await prisma.urlSource.findUnique({
+		where: { sourceType_url: { sourceType: settings.sourceType, url: settings.url } },
+		select: { id: true },
+	});
+	if (existing) {
+		throw createError({
+			statusCode: 409,
+			message: `There already is a ${settings.sourceType} source for ${settings.url}`,
+		});
+	}
+
+	return await prisma.urlSource.create({
+		data: {
+			...settings,
+			// If this field is not initialized to 0 (or at least an hour in the past), newly created sources will not be
+			// scraped for the first hour of runtime, as the scrape job skips all sources that have been updated within the
+			// past hour.
+			lastScraped: new Date(0),
+		},
+	});
+}
+
+export async function updateUrlSource(id: number, settings: UrlSourceSettings) {
+	const existing = await findUrlSource(id);
+
+	const conflict = await prisma.urlSource.findUnique({
+		where: { sourceType_url: { sourceType: settings.sourceType, url: settings.url } },
+		select: { id: true },
+	});
+	if (conflict && conflict.id !== id) {
+		throw createError({
+			statusCode: 409,
+			message: `There already is a ${settings.sourceType} source for ${settings.url}`,
+		});
+	}
+
+	// The cached response of the old URL says nothing about the new one, so it's scraped again right away.
+	const moved = existing.sourceType !== settings.sourceType || existing.url !== settings.url;
+
+	return await prisma.urlSource.update({
+		where: { id },
+		data: {
+			...settings,
+			...(moved ? { lastScraped: new Date(0), etagLastScrape: null } : {}),
+		},
+	});
+}
+
+// Deletes the source along with its events and scrape history. Disable it instead to keep its events.
+export async function deleteUrlSource(id: number) {
+	await findUrlSource(id);
+
+	const clusteredEvents = await prisma.urlEvent.findMany({
+		where: { sourceId: id, clusterId: { not: null } },
+		select: { clusterId: true },
+	});
+
+	await prisma.$transaction([
+		prisma.urlEventImage.deleteMany({ where: { event: { sourceId: id } } }),
+		prisma.urlEvent.deleteMany({ where: { sourceId: id } }),
+		prisma.scrapeRun.deleteMany({ where: { urlSourceId: id } }),
+		prisma.urlSource.delete({ where: { id } }),
+	]);
+
+	await deleteSingletonClusters(clusteredEvents.map(e => e.clusterId as number));
+}
+
+async function findUrlSource(id: number) {
+	const source = await prisma.urlSource.findUnique({ where: { id } });
+	if (!source) {
+		throw createError({
+			statusCode: 404,
+			message: `URL source ${id} does not exist`,
+		});
+	}
+
+	return source;
+}
+
+export async function createInstagramOrganizer(settings: InstagramOrganizerSettings) {
+	const existing = await prisma.instagramEventOrganizer.findUnique({ where: { username: settings.username }, select: { id: true } });
+	if (existing) {
+		throw createError({
+			statusCode: 409,
+			message: `There already is an organizer for @${settings.username}`,
+		});
+	}
+
+	return await prisma.instagramEventOrganizer.create({
+		data: {
+			...settings,
+			// Set lastUpdated to as early as possible so that it will be updated first.
+			lastUpdated: new Date(0),
+		},
+	});
+}
+
+export async function updateInstagramOrganizer(id: number, settings: InstagramOrganizerSettings) {
+	await findInstagramOrganizer(id);
+
+	const conflict = await prisma.instagramEventOrganizer.findUnique({ where: { username: settings.username }, select: { id: true } });
+	if (conflict && conflict.id !== id) {
+		throw createError({
+			statusCode: 409,
+			message: `There already is an organizer for @${settings.username}`,
+		});
+	}
+
+	return await prisma.instagramEventOrganizer.update({ where: { id }, data: settings });
+}
+
+// Deletes the organizer along with its posts, events and scrape history. Disable it instead to keep its events.
+export async function deleteInstagramOrganizer(id: number) {
+	await findInstagramOrganizer(id);
+
+	const clusteredEvents = await prisma.instagramEvent.findMany({
+		where: { organizerId: id, clusterId: { not: null } },
+		select: { clusterId: true },
+	});
+
+	await prisma.$transaction([
+		prisma.instagramImage.deleteMany({ where: { InstagramPost: { organizerId: id } } }),
+		prisma.instagramInferenceAttempt.deleteMany({ where: { post: { organizerId: id } } }),
+		prisma.instagramReextractionPost.deleteMany({ where: { post: { organizerId: id } } }),
+		prisma.instagramEvent.deleteMany({ where: { organizerId: id } }),
+		prisma.instagramPost.deleteMany({ where: { organizerId: id } }),
+		prisma.scrapeRun.deleteMany({ where: { instagramOrganizerId: id } }),
+		prisma.instagramEventOrganizer.delete({ where: { id } }),
+	]);
+
+	await deleteSingletonClusters(clusteredEvents.map(e => e.clusterId as number));
+}
+
+async function findInstagramOrganizer(id: number) {
+	const organizer = await prisma.instagramEventOrganizer.findUnique({ where: { id } });
+	if (!organizer) {
+		throw createError({
+			statusCode: 404,
+			message: `Instagram organizer ${id} does not exist`,
+		});
+	}
+
+	return organizer;
+}
+
+export function parseUrlSourceSettings(value: any): UrlSourceSettings {
+	const sourceType = requiredString(value?.sourceType, 'sourceType', MAX_FIELD_LENGTH);
+	if (!isUrlScraperType(sourceType)) {
+		throw createError({
+			statusCode: 400,
+			message: `sourceType must be one of ${URL_SOURCE_TYPES.join(', ')}`,
+		});
+	}
+
+	const url = requiredString(value?.url, 'url', MAX_FIELD_LENGTH);
+	if (!/^https?:\/\//i.test(url) || !isValidUrl(url)) {
+		throw createError({
+			statusCode: 400,
+			message: 'url must be an http(s) URL',
+		});
+	}
+
+	return {
+		sourceType,
+		sourceName: requiredString(value?.sourceName, 'sourceName', MAX_FIELD_LENGTH),
+		sourceCity: requiredString(value?.sourceCity, 'sourceCity', MAX_FIELD_LENGTH),
+		url,
+		sourceID: optionalField(value?.sourceID, 'sourceID'),
+		disabled: optionalBoolean(value?.disabled, 'disabled'),
+	};
+}
+
+export function parseInstagramOrganizerSettings(value: any): InstagramOrganizerSettings {
+	const username = requiredString(value?.username, 'username', MAX_FIELD_LENGTH).replace(/^@/, '');
+	if (!/^[a-z0-9._]+$/i.test(username)) {
+		throw createError({
+			statusCode: 400,
+			message: 'username must be an Instagram username',
+		});
+	}
+
+	return {
+		username,
+		name: optionalField(value?.name, 'name'),
+		city: requiredString(value?.city, 'city', MAX_FIELD_LENGTH),
+		contextClues: optionalField(value?.contextClues, 'contextClues') ?? '',
+		disabled: optionalBoolean(value?.disabled, 'disabled'),
+	};
+}
+
+// Leaving a field out keeps its value, and an empty string clears it.
+function optionalField(value: any, field: string): string | null | undefined {
+	return value === undefined ? undefined : optionalString(value, field, MAX_FIELD_LENGTH);
+}
+
+function optionalBoolean(value: any, field: string): boolean | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (typeof value !== 'boolean') {
+		throw createError({
+			statusCode: 400,
+			message: `${field} must be true or false`,
+		});
+	}
+
+	return value;
+}
+
+// The `id` route parameter of the endpoints for a single source.
+export function getSourceIdParam(event: H3Event): number {
+	const id = Number(getRouterParam(event, 'id'));
+	if (!Number.isInteger(id)) {
+		throw createError({
+			statusCode: 400,
+			message: 'Source ID must be an integer',
+		});
+	}
+
+	return id;
+}
@@ -0,0 +1,291 @@
+import { H3Event } from 'h3';
+import { DateTime } from 'luxon';
+import { SourceSubmission } from '@prisma/client';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { previewScrape } from '~~/server/utils/scrape-preview';
+import { detectSource, fetchPublic } from '~~/server/utils/source-detection';
+import { createInstagramOrganizer, createUrlSource, parseInstagramOrganizerSettings, parseUrlSourceSettings } from '~~/server/utils/source-registry';
+import { hashIp, optionalString, parseSubmissionStatus, requiredString, SubmissionStatus } from '~~/server/utils/submissions';
+import { CITY_TO_COUNTY } from '~~/composables/filters';
+import { DetectedSource, SourcePreview, SourceSubmissionInfo } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'source-submissions' });
+
+// How many sources one IP address may submit per day, including rejected ones.
+const MAX_SUBMISSIONS_PER_IP_PER_DAY = 3;
+// How many sources one IP address may preview or submit per hour, including ones that failed. Each of them fetches a
+// site that someone outside chose.
+const MAX_SCRAPES_PER_IP_PER_HOUR = 20;
+// How many of the scraped events the preview shows.
+const MAX_PREVIEW_EVENTS = 20;
+// A field that is hidden from people by `/submit-source`, so only bots fill it in.
+const HONEYPOT_FIELD = 'website';
+
+const MAX_FIELD_LENGTH = 500;
+const MAX_NOTES_LENGTH = 2000;
+
+// When each IP address previewed or submitted sources in the last hour, by the hash of the address. Failed attempts
+// aren't stored, so this only limits the attempts that reach the same server instance.
+const recentScrapes = new Map<string, number[]>();
+
+// Previews the source in `{ "input": "..." }` for `/submit-source`, see `scrapeSubmittedSource`.
+export async function previewSource(event: H3Event): Promise<SourcePreview> {
+	const body = await readBody(event);
+
+	countScrape(hashIp(event));
+
+	return await scrapeSubmittedSource(body?.input);
+}
+
+// Counts an attempt to scrape a source for the IP address, before the scrape so that failed ones count too. Throws if
+// the address made too many of them.
+function countScrape(ipHash: string) {
+	const hourAgo = Date.now() - 60 * 60 * 1000;
+	for (const [hash, times] of recentScrapes) {
+		const recent = times.filter(time => time > hourAgo);
+		if (recent.length > 0) {
+			recentScrapes.set(hash, recent);
+		} else {
+			recentScrapes.delete(hash);
+		}
+	}
+
+	const scrapes = recentScrapes.get(ipHash) ?? [];
+	if (scrapes.length >= MAX_SCRAPES_PER_IP_PER_HOUR) {
+		throw createError({
+			statusCode: 429,
+			message: 'You have checked too many calendars, please try again in an hour',
+		});
+	}
+	recentScrapes.set(ipHash, [...scrapes, Date.now()]);
+}
+
+// Detects the scraper for what an organizer entered and scrapes it without storing anything. Throws if we already
+// scrape the source, or it's waiting for review.
+async function scrapeSubmittedSource(input: any): Promise<SourcePreview> {
+	if (typeof input !== 'string' || !input.trim() || input.length > MAX_FIELD_LENGTH) {
+		throw createError({
+			statusCode: 400,
+			message: 'Enter the URL of your calendar, a Google Calendar ID, or an Instagram handle',
+		});
+	}
+
+	const source = await detectSource(input);
+	await assertNotKnown(source);
+
+	if (source.kind === 'instagram') {
+		return { source, events: [], eventCount: 0 };
+	}
+
+	let events;
+	try {
+		// Every request of the scrape is checked, including the ones to URLs that the source's responses point at.
+		({ events } = await previewScrape({
+			sourceType: source.sourceType,
+			sourceName: 'Preview',
+			sourceCity: '',
+			url: source.url,
+			sourceID: source.sourceID,
+		}, fetchPublic));
+	} catch (e: any) {
+		logger.info({ source, error: e.toString() }, 'Preview scrape failed');
+		throw createError({
+			statusCode: 422,
+			message: `We recognized a ${source.sourceType} calendar, but couldn't read its events: ${e.message}`,
+		});
+	}
+
+	const now = new Date();
+	const upcoming = events.filter(e => e.end >= now);
+	// Most pages have structured data, but only some of them have events in it.
+	if (source.sourceType === 'json-ld' && upcoming.length === 0) {
+		throw createError({
+			statusCode: 422,
+			message: "We couldn't find any events on that page. Try the address of your calendar's feed or events page",
+		});
+	}
+
+	return {
+		source,
+		events: upcoming.slice(0, MAX_PREVIEW_EVENTS).map(e => ({ title: e.title, start: e.start, end: e.end, url: e.url })),
+		eventCount: upcoming.length,
+	};
+}
+
+async function assertNotKnown(source: DetectedSource) {
+	if (source.kind === 'instagram') {
+		const [organizer, submission] = await Promise.all([
+			prisma.instagramEventOrganizer.findUnique({ where: { username: source.username }, select: { id: true } }),
+			prisma.sourceSubmission.findFirst({ where: { status: 'pending', username: source.username }, select: { id: true } }),
+		]);
+		if (organizer) {
+			throw createError({
+				statusCode: 409,
+				message: `We already list the events of @${source.username}`,
+			});
+		}
+		if (submission) {
+			throw createError({
+				statusCode: 409,
+				message: `@${source.username} has already been submitted and is waiting for review`,
+			});
+		}
+		return;
+	}
+
+	const [urlSource, submission] = await Promise.all([
+		prisma.urlSource.findUnique({ where: { sourceType_url: { sourceType: source.sourceType, url: source.url } }, select: { id: true } }),
+		prisma.sourceSubmission.findFirst({ where: { status: 'pending', sourceType: source.sourceType, url: source.url }, select: { id: true } }),
+	]);
+	if (urlSource) {
+		throw createError({
+			statusCode: 409,
+			message: 'We already list the events of this calendar',
+		});
+	}
+	if (submission) {
+		throw createError({
+			statusCode: 409,
+			message: 'This calendar has already been submitted and is waiting for review',
+		});
+	}
+}
+
+// Queues the source submitted on `/submit-source` for review. The source is detected and scraped again rather than
+// trusting the preview that the organizer saw.
+export async function submitSource(event: H3Event) {
+	const body = await readBody(event);
+
+	const ipHash = hashIp(event);
+	if (body?.[HONEYPOT_FIELD]) {
+		// Bots are told that it worked, so that they don't try something else.
+		logger.info({ ipHash }, 'Ignoring source submission that filled in the honeypot field');
+		return;
+	}
+
+	const submittedToday = await prisma.sourceSubmission.count({
+		where: {
+			ipHash,
+			createdAt: { gt: DateTime.now().minus({ days: 1 }).toJSDate() },
+		},
+	});
+	if (submittedToday >= MAX_SUBMISSIONS_PER_IP_PER_DAY) {
+		throw createError({
+			statusCode: 429,
+			message: 'You have submitted too many calendars today, please try again tomorrow',
+		});
+	}
+
+	const name = requiredString(body?.name, 'name', MAX_FIELD_LENGTH);
+	const city = requiredString(body?.city, 'city', MAX_FIELD_LENGTH);
+	if (!(city in CITY_TO_COUNTY)) {
+		throw createError({
+			statusCode: 400,
+			message: `city must be one of ${Object.keys(CITY_TO_COUNTY).join(', ')}`,
+		});
+	}
+	const contact = optionalString(body?.contact, 'contact', MAX_FIELD_LENGTH);
+	const notes = optionalString(body?.notes, 'notes', MAX_NOTES_LENGTH);
+
+	countScrape(ipHash);
+	const { source, eventCount } = await scrapeSubmittedSource(body?.input);
+
+	const created = await prisma.sourceSubmission.create({
+		data: {
+			kind: source.kind,
+			...(source.kind === 'url'
+				? { sourceType: source.sourceType, url: source.url, sourceID: source.sourceID }
+				: { username: source.username }),
+			name,
+			city,
+			contact,
+			notes,
+			previewEventCount: eventCount,
+			ipHash,
+		},
+	});
+
+	logger.info({ id: created.id, kind: created.kind, sourceType: created.sourceType, name }, 'Received source submission');
+}
+
+// The review queue: oldest submissions first, so that they're reviewed in order.
+export async function fetchSourceSubmissions(status: SubmissionStatus): Promise<SourceSubmissionInfo[]> {
+	const submissions = await prisma.sourceSubmission.findMany({
+		where: { status },
+		orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+	});
+
+	return submissions.map(toSourceSubmissionInfo);
+}
+
+// Adds the submitted source to the sources that are scraped.
+export async function approveSourceSubmission(id: number) {
+	const submission = toSourceSubmissionInfo(await findSourceSubmission(id));
+	if (submission.status === 'approved') {
+		return;
+	}
+
+	const { source } = submission;
+	if (source.kind === 'url') {
+		await createUrlSource(parseUrlSourceSettings({
+			sourceType: source.sourceType,
+			sourceName: submission.name,
+			sourceCity: submission.city,
+			url: source.url,
+			sourceID: source.sourceID ?? undefined,
+		}));
+	} else {
+		await createInstagramOrganizer(parseInstagramOrganizerSettings({
+			username: source.username,
+			name: submission.name,
+			city: submission.city,
+		}));
+	}
+
+	await prisma.sourceSubmission.update({
+		where: { id },
+		data: { status: 'approved', reviewedAt: new Date(), rejectionReason: null },
+	});
+}
+
+export async function rejectSourceSubmission(id: number, reason: string | null) {
+	await findSourceSubmission(id);
+
+	await prisma.sourceSubmission.update({
+		where: { id },
+		data: { status: 'rejected', reviewedAt: new Date(), rejectionReason: reason },
+	});
+}
+
+async function findSourceSubmission(id: number) {
+	const submission = await prisma.sourceSubmission.findUnique({ where: { id } });
+	if (!submission) {
+		throw createError({
+			statusCode: 404,
+			message: `Source submission ${id} does not exist`,
+		});
+	}
+
+	return submission;
+}
+
+function toSourceSubmissionInfo(submission: SourceSubmission): SourceSubmissionInfo {
+	const source: DetectedSource = submission.kind === 'instagram'
+		? { kind: 'instagram', username: submission.username! }
+		: { kind: 'url', sourceType: submission.sourceType!, url: submission.url!, sourceID: submission.sourceID };
+
+	return {
+		id: submission.id,
+		status: parseSubmissionStatus(submission.status),
+		createdAt: submission.createdAt,
+		reviewedAt: submission.reviewedAt,
+		rejectionReason: submission.rejectionReason,
+		source,
+		name: submission.name,
+		city: submission.city,
+		contact: submission.contact,
+		notes: submission.notes,
+		previewEventCount: submission.previewEventCount,
+	};
+}
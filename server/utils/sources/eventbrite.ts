@@ -3,7 +3,8 @@ import { DateTime } from 'luxon';
 
 import { logger as mainLogger } from '~~/server/utils/logger';
 import { UrlSource } from '@prisma/client';
-import { fetchCached, SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
+import { fetchCached, fetchForSource, SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
+import { convertSchemaDotOrgEventToFullCalendarEvent } from './json-ld';
 
 const logger = mainLogger.child({ provider: 'eventbrite' });
 
@@ -28,13 +29,15 @@ export class EventbriteScraper implements UrlScraper {
 				return [];
 			}
 
-			const eventsFC = eventsJson.map((event: any) => convertSchemaDotOrgEventToFullCalendarEvent(event.item, source.sourceName));
+			const eventsFC = eventsJson
+				.map((event: any) => convertSchemaDotOrgEventToFullCalendarEvent(event.item, source.sourceName, source.url))
+				.filter((event: UrlEventInit | null): event is UrlEventInit => event !== null);
 
 			// Since public & private Eventbrite endpoints provides a series of events as a single event, we need to split them up using their API.
 			const events = await Promise.all(eventsFC.map(async (rawEvent: any) => {
 				const isLongerThan3Days = (rawEvent.end.getTime() - rawEvent.start.getTime()) / (1000 * 3600 * 24) > 3;
 				if (isLongerThan3Days) {
-					const eventSeries = await getEventSeries(rawEvent.url);
+					const eventSeries = await getEventSeries(source, rawEvent.url);
 					return eventSeries.map((event: any) => convertEventbriteAPIEventToFullCalendarEvent(event, source.sourceName));
 				} else {
 					return rawEvent;
@@ -59,12 +62,11 @@ export class EventbriteScraper implements UrlScraper {
 	}
 }
 
-// TODO: come up with a way for event promoters to submit events to us and have us store them in the DB without
-// requiring code changes?
+// Promoters with a single event can also submit it on `/submit` instead.
 export class EventbriteSingleScraper implements UrlScraper {
 	name = 'eventbrite-single';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		return await fetchCached(source, source.url, async (response) => {
 			const body = await response.json();
 
@@ -96,9 +98,9 @@ function eventSeriesUrl(url: string) {
 	return `https://www.eventbriteapi.com/v3/series/${series_id}/events/?token=${process.env.EVENTBRITE_API_KEY}`;
 }
 
-async function getEventSeries(eventUrl: string) {
+async function getEventSeries(source: UrlSource, eventUrl: string) {
 	// Split URL by '-' and get the last part.
-	const res = await fetch(eventSeriesUrl(eventUrl));
+	const res = await fetchForSource(source, eventSeriesUrl(eventUrl));
 	const body = await res.json();
 
 	// Sometimes the response returns 404 for whatever reason. I imagine for events with information set to private. Ignore those.
@@ -109,48 +111,11 @@ async function getEventSeries(eventUrl: string) {
 	return body.events;
 }
 
-function convertSchemaDotOrgEventToFullCalendarEvent(item: any, sourceName: string) {
-	// If we have a `geo` object, format it to geoJSON.
-	var geoJSON = (item.location.geo) ? {
-		type: "Point",
-		coordinates: [
-			item.location.geo.longitude,
-			item.location.geo.latitude
-		]
-		// Otherwise, set it to null.
-	} : null;
-
-	return {
-		title: `${item.name} @ ${sourceName}`,
-		// Converts from System Time to UTC.
-		start: DateTime.fromISO(item.startDate).toUTC().toJSDate(),
-		end: DateTime.fromISO(item.endDate).toUTC().toJSDate(),
-		url: item.url,
-		extendedProps: {
-			description: item.description || null,
-			image: item.image,
-			location: {
-				geoJSON: geoJSON,
-				eventVenue: {
-					name: item.location.name,
-					address: {
-						streetAddress: item.location.streetAddress,
-						addressLocality: item.location.addressLocality,
-						addressRegion: item.location.addressRegion,
-						postalCode: item.location.postalCode,
-						addressCountry: item.location.addressCountry
-					},
-					geo: item.location?.geo
-				}
-			}
-		}
-	};
-};
-
 // The problem with the Eventbrite developer API format is that it lacks geolocation.
-function convertEventbriteAPIEventToFullCalendarEvent(item: any, sourceName: string) {
+function convertEventbriteAPIEventToFullCalendarEvent(item: any, sourceName: string): UrlEventInit {
 	try {
 		return {
+			externalId: item.id,
 			title: `${item.name.text} @ ${sourceName}`,
 			start: new Date(item.start.utc),
 			end: new Date(item.end.utc),
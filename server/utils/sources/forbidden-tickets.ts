@@ -2,7 +2,7 @@ import { DateTime } from 'luxon';
 
 import { logger as mainLogger } from '~~/server/utils/logger';
 import { UrlSource } from '@prisma/client';
-import { fetchCached, SourceFile, UrlEventInit, UrlScraper } from '../http';
+import { fallbackExternalId, fetchCached, SourceFile, UrlEventInit, UrlScraper } from '../http';
 
 const logger = mainLogger.child({ provider: 'forbidden-tickets' });
 
@@ -18,12 +18,18 @@ export class ForbiddenTicketsScraper implements UrlScraper {
 				return [];
 			}
 
-			return json.map((item: any) => ({
-				title: `${item.title}`,
-				url: item.url,
-				start: DateTime.fromFormat(item.start, 'yyyy-MM-dd HH:mm:ss', { zone: 'UTC' }).toJSDate(),
-				end: DateTime.fromFormat(item.end, 'yyyy-MM-dd HH:mm:ss', { zone: 'UTC' }).toJSDate(),
-			}));
+			return json.map((item: any): UrlEventInit => {
+				const start = DateTime.fromFormat(item.start, 'yyyy-MM-dd HH:mm:ss', { zone: 'UTC' }).toJSDate();
+
+				return {
+					// Each part of a multi-part event is listed separately, all with the URL of the event.
+					externalId: fallbackExternalId(item.url, start),
+					title: `${item.title}`,
+					url: item.url,
+					start,
+					end: DateTime.fromFormat(item.end, 'yyyy-MM-dd HH:mm:ss', { zone: 'UTC' }).toJSDate(),
+				};
+			});
 		});
 	}
 
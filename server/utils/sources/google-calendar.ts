@@ -22,6 +22,8 @@ export class GcalScraper implements UrlScraper {
 			const data = await response.json()
 
 			return data.items.map((item: any) => ({
+				// With `singleEvents`, each occurrence of a recurring event has its own ID.
+				externalId: item.id,
 				title: `${item.summary} @ ${source.sourceName}`,
 				start: item.start.dateTime,
 				end: item.end.dateTime,
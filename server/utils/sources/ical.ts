@@ -0,0 +1,184 @@
+import ICAL from 'ical.js';
+import { DateTime, IANAZone } from 'luxon';
+
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { UrlSource } from '@prisma/client';
+import { fetchCached, SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
+
+const logger = mainLogger.child({ provider: 'ical' });
+
+// Used for "floating" times that aren't tied to any timezone, and for TZIDs that are neither defined by a VTIMEZONE in
+// the feed nor a known IANA zone.
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+// Keeps RRULEs without an end (e.g. a daily open studio) from flooding the calendar.
+const MAX_OCCURRENCES_PER_EVENT = 200;
+
+interface IcalSource {
+	name: string
+	url: string
+	city: string
+}
+
+export class IcalScraper implements UrlScraper {
+	name = 'ical';
+
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
+		return await fetchCached(source, source.url, async response => {
+			const text = await response.text();
+
+			return parseIcalFeed(text, source);
+		});
+	}
+
+	generateSources(sources: SourceFile): UrlSourceInit[] {
+		return (sources.ical as IcalSource[]).map(source => ({
+			// `webcal://` only tells calendar apps to subscribe to the feed, the feed itself is served over HTTPS.
+			url: source.url.replace(/^webcal:\/\//i, 'https://'),
+			sourceName: source.name,
+			sourceCity: source.city,
+		}));
+	}
+}
+
+// ical.js looks up TZIDs in one registry for the whole process, when it reads the times. The feed's own VTIMEZONEs are
+// only registered while the feed is read, which happens synchronously, so that a feed that defines a common TZID
+// differently can't change how other feeds are read.
+function parseIcalFeed(text: string, source: UrlSource): UrlEventInit[] {
+	const calendar = new ICAL.Component(ICAL.parse(text));
+
+	const zones = calendar.getAllSubcomponents('vtimezone').map((vtimezone: any) => new ICAL.Timezone(vtimezone));
+	const replacedZones = zones.map((zone: any) => [zone.tzid, ICAL.TimezoneService.get(zone.tzid)]);
+	for (let zone of zones) {
+		ICAL.TimezoneService.register(zone.tzid, zone);
+	}
+
+	try {
+		return parseIcalEvents(calendar, source);
+	} finally {
+		// Backwards, so that the zones that were registered before this feed are restored, e.g. the built-in `UTC`.
+		for (let [tzid, replaced] of replacedZones.reverse()) {
+			if (replaced) {
+				ICAL.TimezoneService.register(tzid, replaced);
+			} else {
+				ICAL.TimezoneService.remove(tzid);
+			}
+		}
+	}
+}
+
+function parseIcalEvents(calendar: any, source: UrlSource): UrlEventInit[] {
+	// Same window that we request from the Google Calendar API.
+	const windowStart = ICAL.Time.fromJSDate(DateTime.now().minus({ months: 2 }).toJSDate(), true);
+	const windowEnd = ICAL.Time.fromJSDate(DateTime.now().plus({ years: 1 }).toJSDate(), true);
+
+	const events: UrlEventInit[] = [];
+	for (let vevent of calendar.getAllSubcomponents('vevent')) {
+		// Modified occurrences of a recurring event are attached to their parent event by `ICAL.Event` and are returned
+		// from `getOccurrenceDetails` when expanding the parent below.
+		if (vevent.hasProperty('recurrence-id')) {
+			continue;
+		}
+
+		const event = new ICAL.Event(vevent);
+		// The UID identifies the event across scrapes, and the summary is its title.
+		if (!event.uid || !event.summary) {
+			logger.warn({ sourceName: source.sourceName, uid: event.uid, summary: event.summary }, 'Skipping event without a UID or summary');
+			continue;
+		}
+
+		if (!event.isRecurring()) {
+			if (event.startDate.compare(windowEnd) <= 0 && event.endDate.compare(windowStart) >= 0 && !isCancelled(event)) {
+				events.push(convertIcalEventToFullCalendarEvent(event, event.startDate, event.endDate, null, source));
+			}
+			continue;
+		}
+
+		const iterator = event.iterator();
+		let occurrenceCount = 0;
+		let next;
+		while ((next = iterator.next()) && occurrenceCount < MAX_OCCURRENCES_PER_EVENT) {
+			const occurrence = event.getOccurrenceDetails(next);
+			if (occurrence.startDate.compare(windowEnd) > 0) {
+				break;
+			}
+			if (occurrence.endDate.compare(windowStart) < 0 || isCancelled(occurrence.item)) {
+				continue;
+			}
+
+			events.push(convertIcalEventToFullCalendarEvent(occurrence.item, occurrence.startDate, occurrence.endDate, occurrence.recurrenceId, source));
+			occurrenceCount += 1;
+		}
+
+		if (occurrenceCount >= MAX_OCCURRENCES_PER_EVENT) {
+			logger.warn({ sourceName: source.sourceName, uid: event.uid }, 'Recurring event has too many occurrences, truncating');
+		}
+	}
+
+	return events;
+}
+
+function isCancelled(event: any): boolean {
+	const status = event.component.getFirstPropertyValue('status');
+	return typeof status === 'string' && status.toUpperCase() === 'CANCELLED';
+}
+
+// ical.js resolves times against VTIMEZONEs included in the feed. Times that reference a TZID that the feed doesn't
+// define (common for feeds that rely on IANA names like `America/Los_Angeles`) and floating times end up in ical.js'
+// "local" zone, which is the system timezone of the server, so those are resolved with Luxon instead.
+function icalTimeToDate(time: any, tzid: string | null): Date {
+	if (time.zone !== ICAL.Timezone.localTimezone) {
+		return time.toJSDate();
+	}
+
+	const zone = (tzid && IANAZone.isValidZone(tzid)) ? tzid : DEFAULT_TIMEZONE;
+
+	return DateTime.fromObject({
+		year: time.year,
+		month: time.month,
+		day: time.day,
+		hour: time.hour,
+		minute: time.minute,
+		second: time.second,
+	}, { zone }).toUTC().toJSDate();
+}
+
+// `recurrenceId` is set for occurrences of recurring events: occurrences share the UID of the event, and are told apart by
+// the start time that they were originally scheduled for, even if they've since been moved.
+function convertIcalEventToFullCalendarEvent(event: any, startTime: any, endTime: any, recurrenceId: any, source: UrlSource): UrlEventInit {
+	const component = event.component;
+	const tzid = component.getFirstProperty('dtstart')?.getParameter('tzid') || null;
+	const start = icalTimeToDate(startTime, tzid);
+	const end = icalTimeToDate(endTime, component.getFirstProperty('dtend')?.getParameter('tzid') || tzid);
+
+	// GEO is a `latitude;longitude` pair.
+	const geo = component.getFirstPropertyValue('geo');
+	const hasGeo = Array.isArray(geo) && geo.length === 2;
+
+	return {
+		externalId: recurrenceId ? `${event.uid}/${recurrenceId.toUnixTime()}` : event.uid,
+		title: `${event.summary} @ ${source.sourceName}`,
+		start,
+		end,
+		// Plenty of feeds (e.g. Google Calendar exports) don't include a URL for their events.
+		url: component.getFirstPropertyValue('url') || source.url,
+		extendedProps: {
+			description: event.description || null,
+			image: null,
+			location: {
+				geoJSON: hasGeo ? {
+					type: "Point",
+					coordinates: [geo[1], geo[0]]
+				} : null,
+				eventVenue: {
+					name: event.location || null,
+					address: {},
+					geo: hasGeo ? {
+						latitude: geo[0],
+						longitude: geo[1],
+					} : null,
+				}
+			}
+		}
+	};
+}
@@ -0,0 +1,220 @@
+import { JSDOM } from 'jsdom';
+import { DateTime } from 'luxon';
+
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { UrlSource } from '@prisma/client';
+import { fallbackExternalId, fetchCached, SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
+
+const logger = mainLogger.child({ provider: 'json-ld' });
+
+// Dates without a UTC offset are assumed to be local to the venue.
+const DEFAULT_TIMEZONE = 'America/Los_Angeles';
+
+// Event and all of its subtypes, see https://schema.org/Event
+const SCHEMA_DOT_ORG_EVENT_TYPES = new Set([
+	'Event',
+	'BusinessEvent',
+	'ChildrensEvent',
+	'ComedyEvent',
+	'CourseInstance',
+	'DanceEvent',
+	'DeliveryEvent',
+	'EducationEvent',
+	'EventSeries',
+	'ExhibitionEvent',
+	'Festival',
+	'FoodEvent',
+	'Hackathon',
+	'LiteraryEvent',
+	'MusicEvent',
+	'PublicationEvent',
+	'SaleEvent',
+	'ScreeningEvent',
+	'SocialEvent',
+	'SportsEvent',
+	'TheaterEvent',
+	'VisualArtsEvent',
+]);
+
+interface JsonLdSource {
+	name: string
+	url: string
+	city: string
+}
+
+// Scrapes any web page that describes its events with schema.org JSON-LD, which is what most venue website builders
+// and ticketing platforms emit so that their events show up in search results.
+export class JsonLdScraper implements UrlScraper {
+	name = 'json-ld';
+
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
+		return await fetchCached(source, source.url, async response => {
+			const html = await response.text();
+			const items = findSchemaDotOrgEvents(html, source.url);
+
+			logger.debug({ url: source.url, count: items.length }, 'Found JSON-LD events');
+
+			const events: UrlEventInit[] = [];
+			for (let item of items) {
+				const event = convertSchemaDotOrgEventToFullCalendarEvent(item, source.sourceName, source.url);
+				if (event) {
+					events.push(event);
+				}
+			}
+
+			return events;
+		});
+	}
+
+	generateSources(sources: SourceFile): UrlSourceInit[] {
+		return (sources.jsonLd as JsonLdSource[]).map(source => ({
+			url: source.url,
+			sourceName: source.name,
+			sourceCity: source.city,
+		}));
+	}
+}
+
+// Returns every schema.org Event found in the `application/ld+json` blocks of the given page, looking inside of
+// `@graph` and `ItemList` wrappers.
+export function findSchemaDotOrgEvents(html: string, pageUrl: string): any[] {
+	const dom = new JSDOM(html);
+	const scripts = dom.window.document.querySelectorAll('script[type="application/ld+json"]');
+
+	const events: any[] = [];
+	for (let script of scripts) {
+		let json;
+		try {
+			json = JSON.parse(script.textContent || '');
+		} catch (e: any) {
+			logger.warn({ url: pageUrl, error: e.toString() }, 'Skipping invalid JSON-LD block');
+			continue;
+		}
+
+		collectEvents(json, events);
+	}
+
+	return events;
+}
+
+function collectEvents(node: any, events: any[]) {
+	if (Array.isArray(node)) {
+		for (let child of node) {
+			collectEvents(child, events);
+		}
+		return;
+	}
+
+	if (!node || typeof node !== 'object') {
+		return;
+	}
+
+	const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+	if (types.some((type: any) => SCHEMA_DOT_ORG_EVENT_TYPES.has(type))) {
+		events.push(node);
+		return;
+	}
+
+	if (node['@graph']) {
+		collectEvents(node['@graph'], events);
+	}
+
+	if (node.itemListElement) {
+		const elements = Array.isArray(node.itemListElement) ? node.itemListElement : [node.itemListElement];
+		// ItemList elements are either the items themselves, or ListItems wrapping them.
+		collectEvents(elements.map((element: any) => element?.item || element), events);
+	}
+}
+
+// Converts a schema.org Event into a UrlEventInit. Returns null if the event doesn't have a usable start date.
+export function convertSchemaDotOrgEventToFullCalendarEvent(item: any, sourceName: string, pageUrl?: string): UrlEventInit | null {
+	const start = parseSchemaDotOrgDate(item.startDate);
+	if (!start) {
+		logger.warn({ sourceName, name: item.name, startDate: item.startDate }, 'Skipping JSON-LD event without a valid start date');
+		return null;
+	}
+	const end = parseSchemaDotOrgDate(item.endDate) || start;
+
+	// `location` may be a Place, a plain string, a VirtualLocation, or a list of those.
+	const location = Array.isArray(item.location) ? item.location[0] : item.location;
+	const place = typeof location === 'string' ? { name: location } : (location || {});
+	const address = typeof place.address === 'string' ? { streetAddress: place.address } : (place.address || place);
+
+	const geo = place.geo;
+	// If we have a `geo` object, format it to geoJSON.
+	const geoJSON = (geo?.latitude && geo?.longitude) ? {
+		type: "Point",
+		coordinates: [
+			Number(geo.longitude),
+			Number(geo.latitude),
+		]
+		// Otherwise, set it to null.
+	} : null;
+
+	// Pages without their own page per event link to the page that lists them.
+	const url = resolveUrl(item.url, pageUrl) || pageUrl || '';
+
+	return {
+		// `@id` is meant to be a stable identifier. Without one, the same URL may be used for each date of a recurring
+		// event.
+		externalId: typeof item['@id'] === 'string' ? item['@id'] : fallbackExternalId(url, start.toJSDate()),
+		title: `${item.name} @ ${sourceName}`,
+		start: start.toJSDate(),
+		end: end.toJSDate(),
+		url,
+		extendedProps: {
+			description: item.description || null,
+			image: resolveUrl(imageUrl(item.image), pageUrl),
+			location: {
+				geoJSON: geoJSON,
+				eventVenue: {
+					name: place.name,
+					address: {
+						streetAddress: address.streetAddress,
+						addressLocality: address.addressLocality,
+						addressRegion: address.addressRegion,
+						postalCode: address.postalCode,
+						addressCountry: typeof address.addressCountry === 'object' ? address.addressCountry?.name : address.addressCountry,
+					},
+					geo: geo,
+				}
+			}
+		}
+	};
+}
+
+function parseSchemaDotOrgDate(value: any): DateTime | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const date = DateTime.fromISO(value, { zone: DEFAULT_TIMEZONE });
+	return date.isValid ? date.toUTC() : null;
+}
+
+// `image` may be a URL, an ImageObject, or a list of either.
+function imageUrl(image: any): string | null {
+	if (Array.isArray(image)) {
+		return imageUrl(image[0]);
+	}
+	if (typeof image === 'string') {
+		return image;
+	}
+	if (image && typeof image.url === 'string') {
+		return image.url;
+	}
+
+	return null;
+}
+
+function resolveUrl(url: any, pageUrl?: string): string | null {
+	if (typeof url !== 'string' || url.length === 0) {
+		return null;
+	}
+
+	try {
+		return new URL(url, pageUrl).toString();
+	} catch (e) {
+		return null;
+	}
+}
@@ -8,7 +8,7 @@ const logger = mainLogger.child({ provider: 'squarespace' });
 export class SquarespaceScraper implements UrlScraper {
 	name = 'squarespace';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		return fetchCached(source, source.url, async response => {
 			const squarespaceJson = await response.json();
 			const events = squarespaceJson.upcoming || squarespaceJson.items;
@@ -33,7 +33,7 @@ export class SquarespaceScraper implements UrlScraper {
 
 function convertSquarespaceEventToFullCalendarEvent(timeZone: string, e: any, url: string, sourceName: string) {
 	let start = DateTime.fromMillis(e.startDate).setZone(timeZone);
-	let end = DateTime.fromMillis(e.startDate).setZone(timeZone);
+	let end = DateTime.fromMillis(e.endDate ?? e.startDate).setZone(timeZone);
 
 	// Get raw times because some calendars have incorrect time zones (i.e. America/New_York), even though they're in California.
 	const actualStart = DateTime.fromObject({
@@ -52,6 +52,7 @@ function convertSquarespaceEventToFullCalendarEvent(timeZone: string, e: any, ur
 	}, { zone: 'America/Los_Angeles' });
 
 	return {
+		externalId: e.id,
 		title: `${e.title} @ ${sourceName}`,
 		start: actualStart.toUTC().toJSDate(),
 		end: actualEnd.toUTC().toJSDate(),
@@ -22,13 +22,14 @@ export class TimelyScraper implements UrlScraper {
 
 		return fetchCachedWithHeaders(source, fetchUrl, headers, async response => {
 			const json = await response.json();
-			// Convert to map because Timely returns an object with keys being dates, with data as values.
-			const map = new Map(Object.entries(json.data.items));
+			// Convert to map because Timely returns an object with keys being dates, with a list of that day's events as values.
+			const map = new Map<string, any[]>(Object.entries(json.data.items));
 
-			return [...map.values()].map((item: any) => {
-				item = item[0];
+			return [...map.values()].flat().map((item: any) => {
 				const timeZone = item.timezone;
 				return {
+					// The same event appears under each day that it spans.
+					externalId: `${item.id}`,
 					title: `${item.title} @ ${source.sourceName}`,
 					url: item.url,
 					start: DateTime.fromFormat(item.start_datetime, 'yyyy-MM-dd HH:mm:ss', { zone: timeZone }).toJSDate(),
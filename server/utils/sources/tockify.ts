@@ -8,7 +8,7 @@ const logger = mainLogger.child({ provider: 'tockify' });
 export class TockifyScraper implements UrlScraper {
 	name = 'tockify';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		const url = new URL(source.url);
 		// Add current date in milliseconds to the URL to get events starting from this moment.
 		url.searchParams.append('startms', Date.now().toString());
@@ -44,6 +44,8 @@ function convertTockifyEventToFullCalendarEvent(e: any, url: URL, sourceName: st
 		} : null;
 
 	return {
+		// `tid` distinguishes the occurrences of a recurring event.
+		externalId: `${e.eid.uid}/${e.eid.tid}`,
 		title: `${e.content.summary.text} @ ${sourceName}`,
 		start: new Date(e.when.start.millis),
 		end: new Date(e.when.end.millis),
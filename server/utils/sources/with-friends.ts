@@ -10,7 +10,7 @@ const logger = mainLogger.child({ provider: 'with-friends' });
 export class WithFriendsScraper implements UrlScraper {
 	name = 'with-friends';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		// TODO: update to POST and supply forum body https://github.com/queeragenda/bay.lgbt/blob/944be26d4ed4a5bb828c3547e021488abcab29cb/server/api/events/with-friends.ts#L25
 		return fetchCached(source, source.url, async response => {
 			const html = await response.text();
@@ -34,6 +34,8 @@ export class WithFriendsScraper implements UrlScraper {
 				const title = `${event.querySelector('[data-property="Name"]')!.textContent!.trim()} @ ${source.sourceName}`;
 				const postUrl = 'https://withfriends.co' + event.querySelector('.wf-event-link')!.getAttribute('href');
 				return {
+					// The event page is unique to each event.
+					externalId: postUrl,
 					title,
 					start: start.toJSDate(),
 					end: start.toJSDate(),
@@ -9,7 +9,7 @@ const logger = mainLogger.child({ provider: 'wix' });
 export class WixScraper implements UrlScraper {
 	name = 'wix';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		// TODO: fix header passing!
 		const headers = {
 			// These are the 3 headers required to bypass OAuth. See https://dev.wix.com/api/rest/getting-started/api-keys
@@ -41,6 +41,7 @@ export class WixScraper implements UrlScraper {
 			return json.events.map((e: any) => {
 				const timeZone = e.scheduling.config.timeZoneId;
 				return {
+					externalId: e.id,
 					start: DateTime.fromISO(e.scheduling.config.startDate, { zone: timeZone }).toUTC().toJSDate(),
 					end: DateTime.fromISO(e.scheduling.config.endDate, { zone: timeZone }).toUTC().toJSDate(),
 					title: `${e.title} @ ${source.sourceName}`,
@@ -1,21 +1,21 @@
 import eventSourcesJSON from '~~/server/utils/event_sources.json';
 import { logger as mainLogger } from '~~/server/utils/logger';
 import { UrlEvent, UrlSource } from '@prisma/client';
-import { SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
+import { fetchCached, fetchForSource, SourceFile, UrlEventInit, UrlScraper, UrlSourceInit } from '../http';
 
 const logger = mainLogger.child({ provider: 'wordpress-tribe' });
 
 export class WordpressTribeScraper implements UrlScraper {
 	name = 'wordpress-tribe';
 
-	async scrape(source: UrlSource): Promise<UrlEventInit[]> {
+	async scrape(source: UrlSource): Promise<UrlEventInit[] | null> {
 		return fetchCached(source, source.url, async response => {
 			let wpJson = await response.json();
 			let wpEvents = wpJson.events;
 
 			while (Object.hasOwn(wpJson, 'next_rest_url')) {
 				let next_page_url = wpJson.next_rest_url;
-				wpJson = await (await fetch(next_page_url)).json();
+				wpJson = await (await fetchForSource(source, next_page_url)).json();
 				wpEvents = wpEvents.concat(wpJson.events);
 			}
 
@@ -33,7 +33,7 @@ export class WordpressTribeScraper implements UrlScraper {
 }
 
 // The following conversion function is basically ripped from anarchism.nyc.
-function convertWordpressTribeEventToFullCalendarEvent(e: any) {
+function convertWordpressTribeEventToFullCalendarEvent(e: any): UrlEventInit {
 	var geoJSON = (e.venue.geo_lat && e.venue.geo_lng)
 		? {
 			type: "Point",
@@ -41,6 +41,7 @@ function convertWordpressTribeEventToFullCalendarEvent(e: any) {
 		}
 		: null;
 	return {
+		externalId: `${e.id}`,
 		title: e.title,
 		start: new Date(e.utc_start_date + 'Z'),
 		end: new Date(e.utc_end_date + 'Z'),
@@ -0,0 +1,307 @@
+import { createHash } from 'crypto';
+import { H3Event } from 'h3';
+import { DateTime } from 'luxon';
+import { SubmittedEvent } from '@prisma/client';
+import { logger as mainLogger } from '~~/server/utils/logger';
+import { prisma } from '~~/server/utils/db';
+import { CITY_TO_COUNTY } from '~~/composables/filters';
+import { EventSubmission, EventSubmissionFields } from '~~/types';
+
+const logger = mainLogger.child({ provider: 'submissions' });
+
+// The times entered on `/submit` don't have a UTC offset, and are local to the bay.
+const SUBMISSION_TIMEZONE = 'America/Los_Angeles';
+// How many events one IP address may submit per day, including rejected ones.
+const MAX_SUBMISSIONS_PER_IP_PER_DAY = 5;
+// Requests with files are limited to 1MB by nuxt-security, which includes the rest of the form.
+const MAX_IMAGE_BYTES = 900_000;
+const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+// A field that is hidden from people by `/submit`, so only bots fill it in.
+const HONEYPOT_FIELD = 'website';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_FIELD_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+export type SubmissionStatus = EventSubmission['status'];
+const SUBMISSION_STATUSES: SubmissionStatus[] = ['pending', 'approved', 'rejected'];
+
+// Stores the event submitted in the multipart form of `/submit` for moderation.
+export async function submitEvent(event: H3Event) {
+	const parts = await readMultipartFormData(event) || [];
+	const fields: Record<string, string> = {};
+	for (let part of parts) {
+		if (part.name && !part.filename) {
+			fields[part.name] = part.data.toString('utf8');
+		}
+	}
+
+	const ipHash = hashIp(event);
+	if (fields[HONEYPOT_FIELD]) {
+		// Bots are told that it worked, so that they don't try something else.
+		logger.info({ ipHash }, 'Ignoring submission that filled in the honeypot field');
+		return;
+	}
+
+	const submittedToday = await prisma.submittedEvent.count({
+		where: {
+			ipHash,
+			createdAt: { gt: DateTime.now().minus({ days: 1 }).toJSDate() },
+		},
+	});
+	if (submittedToday >= MAX_SUBMISSIONS_PER_IP_PER_DAY) {
+		throw createError({
+			statusCode: 429,
+			message: 'You have submitted too many events today, please try again tomorrow',
+		});
+	}
+
+	const submission = parseSubmissionFields(fields);
+	if (submission.start < new Date()) {
+		throw createError({
+			statusCode: 400,
+			message: 'start must be in the future',
+		});
+	}
+
+	const image = parts.find(part => part.name === 'image' && part.filename && part.data.length > 0);
+	if (image) {
+		if (!image.type || !IMAGE_CONTENT_TYPES.includes(image.type)) {
+			throw createError({
+				statusCode: 400,
+				message: 'image must be a JPEG, PNG, WebP or GIF',
+			});
+		}
+		if (image.data.length > MAX_IMAGE_BYTES) {
+			throw createError({
+				statusCode: 400,
+				message: 'image must be smaller than 900KB',
+			});
+		}
+	}
+
+	const created = await prisma.submittedEvent.create({
+		data: {
+			...submission,
+			ipHash,
+			images: image ? { create: { contentType: image.type!, data: image.data } } : undefined,
+		},
+	});
+
+	logger.info({ id: created.id, title: created.title }, 'Received event submission');
+}
+
+// We only need to recognize repeat submitters, not to know who they are.
+export function hashIp(event: H3Event): string {
+	return createHash('sha256').update(clientIp(event)).digest('hex');
+}
+
+// The address that the proxy in front of the server got the request from. A proxy appends that address to
+// `X-Forwarded-For`, so only the last entry can be trusted: the ones before it are whatever the client sent.
+// CLIENT_IP_HEADER names the header that the proxy sets, or is `none` when there is no proxy.
+export function clientIp(event: H3Event): string {
+	const header = process.env.CLIENT_IP_HEADER || 'x-forwarded-for';
+	const forwarded = header === 'none' ? undefined : getRequestHeader(event, header)?.split(',').pop()?.trim();
+
+	return forwarded || event.node.req.socket.remoteAddress || 'unknown';
+}
+
+// Validates the fields of a submission, given as the strings of the form on `/submit` or as the JSON of a moderator's
+// edit.
+export function parseSubmissionFields(fields: Record<string, any>): EventSubmissionFields {
+	const start = parseDate(fields.start, 'start');
+	const end = parseDate(fields.end, 'end');
+	if (end < start) {
+		throw createError({
+			statusCode: 400,
+			message: 'end must not be before start',
+		});
+	}
+	if (end.getTime() - start.getTime() > 1000 * 60 * 60 * 24 * 7) {
+		throw createError({
+			statusCode: 400,
+			message: 'Events may not be longer than a week',
+		});
+	}
+
+	const url = requiredString(fields.url, 'url', MAX_FIELD_LENGTH);
+	if (!/^https?:\/\//i.test(url) || !isValidUrl(url)) {
+		throw createError({
+			statusCode: 400,
+			message: 'url must be an http(s) URL',
+		});
+	}
+
+	const city = requiredString(fields.city, 'city', MAX_FIELD_LENGTH);
+	if (!(city in CITY_TO_COUNTY)) {
+		throw createError({
+			statusCode: 400,
+			message: `city must be one of ${Object.keys(CITY_TO_COUNTY).join(', ')}`,
+		});
+	}
+
+	return {
+		title: requiredString(fields.title, 'title', MAX_TITLE_LENGTH),
+		start,
+		end,
+		url,
+		city,
+		organizer: optionalString(fields.organizer, 'organizer', MAX_FIELD_LENGTH),
+		venueName: optionalString(fields.venueName, 'venueName', MAX_FIELD_LENGTH),
+		venueAddress: optionalString(fields.venueAddress, 'venueAddress', MAX_FIELD_LENGTH),
+		description: optionalString(fields.description, 'description', MAX_DESCRIPTION_LENGTH),
+	};
+}
+
+export function parseDate(value: any, field: string): Date {
+	const date = typeof value === 'string' ? DateTime.fromISO(value, { zone: SUBMISSION_TIMEZONE }) : null;
+	if (!date?.isValid) {
+		throw createError({
+			statusCode: 400,
+			message: `${field} must be a valid date and time`,
+		});
+	}
+
+	return date.toJSDate();
+}
+
+export function isValidUrl(url: string): boolean {
+	try {
+		new URL(url);
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+export function requiredString(value: any, field: string, maxLength: number): string {
+	const string = optionalString(value, field, maxLength);
+	if (!string) {
+		throw createError({
+			statusCode: 400,
+			message: `${field} is required`,
+		});
+	}
+
+	return string;
+}
+
+export function optionalString(value: any, field: string, maxLength: number): string | null {
+	if (value === undefined || value === null) {
+		return null;
+	}
+	if (typeof value !== 'string') {
+		throw createError({
+			statusCode: 400,
+			message: `${field} must be a string`,
+		});
+	}
+
+	const trimmed = value.trim();
+	if (trimmed.length > maxLength) {
+		throw createError({
+			statusCode: 400,
+			message: `${field} must be at most ${maxLength} characters long`,
+		});
+	}
+
+	return trimmed || null;
+}
+
+export function parseSubmissionStatus(value: any): SubmissionStatus {
+	if (!SUBMISSION_STATUSES.includes(value)) {
+		throw createError({
+			statusCode: 400,
+			message: `status must be one of ${SUBMISSION_STATUSES.join(', ')}`,
+		});
+	}
+
+	return value;
+}
+
+// The `id` route parameter of the moderation endpoints.
+export function getSubmissionIdParam(event: H3Event): number {
+	const id = Number(getRouterParam(event, 'id'));
+	if (!Number.isInteger(id)) {
+		throw createError({
+			statusCode: 400,
+			message: 'Submission ID must be an integer',
+		});
+	}
+
+	return id;
+}
+
+// The moderation queue: oldest submissions first, so that they're reviewed in order.
+export async function fetchSubmissions(status: SubmissionStatus): Promise<EventSubmission[]> {
+	const submissions = await prisma.submittedEvent.findMany({
+		where: { status },
+		include: { images: { select: { id: true } } },
+		orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+	});
+
+	return submissions.map(toEventSubmission);
+}
+
+export async function updateSubmission(id: number, fields: EventSubmissionFields): Promise<EventSubmission> {
+	await findSubmission(id);
+
+	const submission = await prisma.submittedEvent.update({
+		where: { id },
+		data: fields,
+		include: { images: { select: { id: true } } },
+	});
+
+	return toEventSubmission(submission);
+}
+
+// Approved submissions are served by the events API.
+export async function approveSubmission(id: number) {
+	await findSubmission(id);
+
+	await prisma.submittedEvent.update({
+		where: { id },
+		data: { status: 'approved', reviewedAt: new Date(), rejectionReason: null },
+	});
+}
+
+export async function rejectSubmission(id: number, reason: string | null) {
+	await findSubmission(id);
+
+	await prisma.submittedEvent.update({
+		where: { id },
+		data: { status: 'rejected', reviewedAt: new Date(), rejectionReason: reason },
+	});
+}
+
+async function findSubmission(id: number) {
+	const submission = await prisma.submittedEvent.findUnique({ where: { id }, select: { id: true } });
+	if (!submission) {
+		throw createError({
+			statusCode: 404,
+			message: `Submission ${id} does not exist`,
+		});
+	}
+
+	return submission;
+}
+
+function toEventSubmission(submission: SubmittedEvent & { images: { id: number }[] }): EventSubmission {
+	return {
+		id: submission.id,
+		status: parseSubmissionStatus(submission.status),
+		createdAt: submission.createdAt,
+		reviewedAt: submission.reviewedAt,
+		rejectionReason: submission.rejectionReason,
+		title: submission.title,
+		start: submission.start,
+		end: submission.end,
+		url: submission.url,
+		city: submission.city,
+		organizer: submission.organizer,
+		venueName: submission.venueName,
+		venueAddress: submission.venueAddress,
+		description: submission.description,
+		images: submission.images.map(img => `/api/images/submissions/${img.id}`),
+	};
+}
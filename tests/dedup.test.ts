@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { compareVenues, duplicateSimilarity, titleSimilarity } from '~~/server/utils/dedup';
+import { EventVenue, NormalizedEvent } from '~~/types';
+
+const START = new Date('2025-03-09T19:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const THE_STUD: EventVenue = { name: 'The Stud', address: { streetAddress: '1123 Folsom St' } };
+const EL_RIO: EventVenue = { name: 'El Rio', address: { streetAddress: '3158 Mission St' } };
+
+function event(title: string, overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+	return {
+		id: 'url-event-1',
+		title,
+		start: START,
+		end: new Date(START.getTime() + 3 * HOUR_MS),
+		url: 'https://example.org/event',
+		status: 'scheduled',
+		city: 'San Francisco',
+		organizer: 'Test Organizer',
+		sourceType: 'ical',
+		venue: null,
+		description: null,
+		tickets: null,
+		images: [],
+		provenance: { kind: 'url', sourceId: 1, eventId: 1, scrapedAt: START },
+		clusterId: null,
+		sources: [],
+		...overrides,
+	};
+}
+
+describe('titleSimilarity', () => {
+	it.each([
+		{ a: 'Drag Brunch', b: 'DRAG BRUNCH!', similarity: 1 },
+		{ a: 'Café Night', b: 'Cafe Night', similarity: 1 },
+		{ a: 'The Drag Show', b: 'Drag Show at the Stud', similarity: 0.8 },
+		{ a: 'Drag Brunch', b: 'Sunday Drag Brunch', similarity: 0.8 },
+		{ a: 'Karaoke Night', b: 'Trivia Night', similarity: 0.5 },
+		{ a: 'Drag Brunch', b: 'Queer Yoga', similarity: 0 },
+		{ a: 'The', b: 'The', similarity: 0 },
+	])('rates "$a" and "$b" $similarity', ({ a, b, similarity }) => {
+		expect(titleSimilarity(event(a), event(b))).toBeCloseTo(similarity);
+	});
+
+	it('ignores the organizers that scrapers add to the titles', () => {
+		const a = event('Queer Yoga @ The Rainbow Room', { organizer: 'The Rainbow Room' });
+		const b = event('Queer Yoga @ Eagle', { organizer: 'Eagle' });
+
+		expect(titleSimilarity(a, b)).toBe(1);
+	});
+});
+
+describe('compareVenues', () => {
+	it.each<{ name: string, a: EventVenue | null, b: EventVenue | null, result: ReturnType<typeof compareVenues> }>([
+		{ name: 'coordinates 55m apart', a: { geo: { latitude: 37.7700, longitude: -122.4100 } }, b: { geo: { latitude: 37.7705, longitude: -122.4100 } }, result: 'same' },
+		{ name: 'coordinates 1km apart', a: { geo: { latitude: 37.7700, longitude: -122.4100 } }, b: { geo: { latitude: 37.7800, longitude: -122.4100 } }, result: 'different' },
+		{ name: 'spellings of the same address', a: { address: { streetAddress: '3158 Mission St' } }, b: { address: { streetAddress: '3158 Mission Street, San Francisco' } }, result: 'same' },
+		{ name: 'addresses on the same street', a: { address: { streetAddress: '3158 Mission St' } }, b: { address: { streetAddress: '2565 Mission St' } }, result: 'different' },
+		{ name: 'names that share their words', a: { name: 'The Stud' }, b: { name: 'Stud SF' }, result: 'same' },
+		{ name: 'names that share no words', a: { name: 'The Stud' }, b: { name: 'El Rio' }, result: 'different' },
+		{ name: 'a missing venue', a: THE_STUD, b: null, result: 'unknown' },
+		{ name: 'venues without any details', a: {}, b: {}, result: 'unknown' },
+	])('finds $name $result', ({ a, b, result }) => {
+		expect(compareVenues(a, b)).toBe(result);
+	});
+});
+
+describe('duplicateSimilarity', () => {
+	it.each<{ name: string, a: NormalizedEvent, b: NormalizedEvent, similarity: number }>([
+		{ name: 'the same title at the same time', a: event('Drag Brunch'), b: event('Drag Brunch'), similarity: 1 },
+		{ name: 'a similar title', a: event('Drag Brunch'), b: event('Sunday Drag Brunch'), similarity: 0.8 },
+		{ name: 'starts 2 hours apart', a: event('Drag Brunch'), b: event('Drag Brunch', { start: new Date(START.getTime() + 2 * HOUR_MS) }), similarity: 1 },
+		{ name: 'starts 4 hours apart', a: event('Drag Brunch'), b: event('Drag Brunch', { start: new Date(START.getTime() - 4 * HOUR_MS) }), similarity: 0 },
+		{ name: 'different venues', a: event('Drag Brunch', { venue: THE_STUD }), b: event('Drag Brunch', { venue: EL_RIO }), similarity: 0 },
+		{ name: 'a loosely similar title at an unknown venue', a: event('Karaoke Night'), b: event('Trivia Night'), similarity: 0 },
+		{ name: 'a loosely similar title at the same venue', a: event('Karaoke Night', { venue: THE_STUD }), b: event('Trivia Night', { venue: THE_STUD }), similarity: 0.5 },
+		{ name: 'different titles at the same venue', a: event('Drag Brunch', { venue: THE_STUD }), b: event('Queer Yoga', { venue: THE_STUD }), similarity: 0 },
+	])('rates events with $name $similarity', ({ a, b, similarity }) => {
+		expect(duplicateSimilarity(a, b)).toBeCloseTo(similarity);
+	});
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseEventRef } from '~~/server/utils/dedup';
+import { instagramEventId } from '~~/server/utils/events';
+
+describe('parseEventRef', () => {
+	it('parses the IDs of URL events', () => {
+		expect(parseEventRef('url-event-12')).toEqual({ kind: 'url', id: 12 });
+	});
+
+	it('parses the IDs of the events of Instagram posts', () => {
+		expect(parseEventRef(instagramEventId('17912345678901234', 0))).toEqual({ kind: 'instagram', postID: '17912345678901234', index: 0 });
+		expect(parseEventRef(instagramEventId('17912345678901234', 3))).toEqual({ kind: 'instagram', postID: '17912345678901234', index: 3 });
+	});
+
+	it('rejects other IDs', () => {
+		expect(parseEventRef('submitted-event-1')).toBeNull();
+		expect(parseEventRef('url-event-abc')).toBeNull();
+	});
+});
@@ -0,0 +1,57 @@
+import { readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { vi } from 'vitest';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+	'.html': 'text/html; charset=utf-8',
+	'.json': 'application/json',
+	'.ics': 'text/calendar',
+};
+
+// A fixture file in `tests/fixtures`, or a function that builds the response.
+export type Route = string | ((request: Request) => Response | Promise<Response>);
+
+export function fixture(path: string): string {
+	return readFileSync(join(FIXTURES_DIR, path), 'utf8');
+}
+
+// Responds with the file from `tests/fixtures` with a content type that matches its extension.
+export function fixtureResponse(path: string, init?: ResponseInit): Response {
+	return new Response(fixture(path), {
+		...init,
+		headers: { 'Content-Type': CONTENT_TYPES[extname(path)] ?? 'application/octet-stream', ...init?.headers },
+	});
+}
+
+// Replaces `fetch` with one that serves the given routes, so that the tests run offline. A request matches a route if
+// it has the route's origin and path and every query parameter of the route, and the route with the most query
+// parameters wins. Requests that match no route fail the test. Returns the mock, whose calls are the `Request`s.
+export function stubFetch(routes: { [url: string]: Route }) {
+	const parsedRoutes = Object.entries(routes).map(([url, route]) => ({ url: new URL(url), route }));
+
+	const mock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+		const request = new Request(input, init);
+		const url = new URL(request.url);
+
+		const matches = parsedRoutes
+			.filter(r => r.url.origin === url.origin && r.url.pathname === url.pathname)
+			.filter(r => [...r.url.searchParams].every(([key, value]) => url.searchParams.get(key) === value))
+			.sort((a, b) => [...b.url.searchParams].length - [...a.url.searchParams].length);
+		if (matches.length === 0) {
+			throw new Error(`Unexpected request to ${url}`);
+		}
+
+		const { route } = matches[0];
+		return typeof route === 'string' ? fixtureResponse(route) : await route(request);
+	});
+
+	vi.stubGlobal('fetch', mock);
+	return mock;
+}
+
+// The `Request`s that the stub received.
+export function requests(mock: ReturnType<typeof stubFetch>): Request[] {
+	return mock.mock.calls.map(([input, init]) => new Request(input, init));
+}
@@ -0,0 +1,12 @@
+#!/bin/sh
+# Stands in for Tesseract: prints its arguments and the size of the image that it got on stdin. The language `stuck`
+# makes it hang.
+if [ "$4" = "stuck" ]; then
+	exec sleep 10
+fi
+if [ "$4" = "unknown" ]; then
+	echo "Failed loading language '$4'" >&2
+	exit 1
+fi
+echo "$@"
+wc -c | tr -d ' '
@@ -0,0 +1,41 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { createEvent } from 'h3';
+import { UrlSource } from '@prisma/client';
+import { vi } from 'vitest';
+
+// A stored source as the scrape job would hand it to a scraper.
+export function urlSource(source: Partial<UrlSource> & Pick<UrlSource, 'sourceType' | 'url'>): UrlSource {
+	return {
+		id: 1,
+		sourceID: null,
+		sourceName: 'Test Organizer',
+		sourceCity: 'San Francisco',
+		lastScraped: new Date(0),
+		etagLastScrape: null,
+		disabled: false,
+		...source,
+	};
+}
+
+// Scrapers ask for the events around the current time, which the fixtures were recorded at. Only `Date` is faked, so
+// that promises and timers keep working.
+export function freezeTime(iso: string) {
+	vi.useFakeTimers({ toFake: ['Date'] });
+	vi.setSystemTime(new Date(iso));
+}
+
+// A request to an endpoint from the given address. A body makes it a POST, as JSON.
+export function requestFrom(remoteAddress: string, headers: Record<string, string>, body?: unknown) {
+	const socket = new Socket();
+	Object.defineProperty(socket, 'remoteAddress', { value: remoteAddress });
+	const req = new IncomingMessage(socket);
+	req.headers = headers;
+	if (body !== undefined) {
+		req.method = 'POST';
+		// h3 reads the body from here instead of the stream, as it would for frameworks that parsed it already.
+		Object.assign(req, { body: JSON.stringify(body) });
+	}
+
+	return createEvent(req, new ServerResponse(req));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { dryRunScrape, fetchCachedWithHeaders } from '~~/server/utils/http';
+import { HttpError } from '~~/server/utils/scrape-runs';
+import { TockifyScraper } from '~~/server/utils/sources/tockify';
+import { fixtureResponse, requests, stubFetch } from './fetch-stub';
+import { urlSource } from './helpers';
+
+const URL = 'https://example.org/events.json';
+
+describe('fetchCachedWithHeaders', () => {
+	it('skips sources that have not changed since the stored ETag', async () => {
+		const fetch = stubFetch({ [URL]: () => new Response(null, { status: 304 }) });
+		const actOnResponse = vi.fn();
+
+		const events = await fetchCachedWithHeaders(urlSource({ sourceType: 'json-ld', url: URL, etagLastScrape: '"v1"' }), URL, { 'x-api-key': 'key' }, actOnResponse);
+
+		expect(events).toBeNull();
+		expect(actOnResponse).not.toHaveBeenCalled();
+		expect(prisma.urlSource.update).not.toHaveBeenCalled();
+		const [request] = requests(fetch);
+		expect(request.headers.get('If-None-Match')).toBe('"v1"');
+		expect(request.headers.get('x-api-key')).toBe('key');
+	});
+
+	it('stores the ETag of changed sources', async () => {
+		stubFetch({ [URL]: () => new Response('[]', { headers: { ETag: '"v2"' } }) });
+
+		const events = await fetchCachedWithHeaders(urlSource({ id: 7, sourceType: 'json-ld', url: URL, etagLastScrape: '"v1"' }), URL, {}, async response => {
+			expect(await response.json()).toEqual([]);
+			return [];
+		});
+
+		expect(events).toEqual([]);
+		expect(prisma.urlSource.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { etagLastScrape: '"v2"' } });
+	});
+
+	it('does not send an ETag for sources without one', async () => {
+		const fetch = stubFetch({ [URL]: () => new Response('[]') });
+
+		await fetchCachedWithHeaders(urlSource({ sourceType: 'json-ld', url: URL }), URL, {}, async () => []);
+
+		expect(requests(fetch)[0].headers.has('If-None-Match')).toBe(false);
+		expect(prisma.urlSource.update).not.toHaveBeenCalled();
+	});
+
+	it('throws the status of failed requests', async () => {
+		stubFetch({ [URL]: () => new Response('Service Unavailable', { status: 503 }) });
+
+		const result = fetchCachedWithHeaders(urlSource({ sourceType: 'json-ld', url: URL }), URL, {}, async () => []);
+
+		await expect(result).rejects.toBeInstanceOf(HttpError);
+		await expect(result).rejects.toMatchObject({ status: 503 });
+	});
+
+	it('makes scrapers report unchanged sources as null', async () => {
+		stubFetch({ 'https://tockify.com/api/ngevent': () => new Response(null, { status: 304 }) });
+
+		const events = await new TockifyScraper().scrape(urlSource({
+			sourceType: 'tockify',
+			url: 'https://tockify.com/api/ngevent?calname=thestud',
+			etagLastScrape: '"v1"',
+		}));
+
+		expect(events).toBeNull();
+	});
+});
+
+describe('dryRunScrape', () => {
+	it('neither sends nor stores ETags', async () => {
+		const fetch = stubFetch({
+			'https://tockify.com/api/ngevent': () => fixtureResponse('tockify/events.json', { headers: { ETag: '"v2"' } }),
+		});
+
+		const events = await dryRunScrape({
+			sourceType: 'tockify',
+			sourceName: 'The Stud',
+			sourceCity: 'San Francisco',
+			url: 'https://tockify.com/api/ngevent?calname=thestud',
+		});
+
+		expect(events).toHaveLength(2);
+		expect(requests(fetch)[0].headers.has('If-None-Match')).toBe(false);
+		expect(prisma.urlSource.update).not.toHaveBeenCalled();
+	});
+
+	it('makes every request of the scrape with the given fetch', async () => {
+		stubFetch({
+			'https://example-bar.com/wp-json/tribe/events/v1/events/': 'wordpress-tribe/events-page-1.json',
+			'https://example-bar.com/wp-json/tribe/events/v1/events/?page=2': 'wordpress-tribe/events-page-2.json',
+		});
+		const fetchUrl = vi.fn((url: string | URL, init?: RequestInit) => fetch(url, init));
+
+		const events = await dryRunScrape({
+			sourceType: 'wordpress-tribe',
+			sourceName: 'Example Bar',
+			sourceCity: 'San Francisco',
+			url: 'https://example-bar.com/wp-json/tribe/events/v1/events/?per_page=1',
+		}, fetchUrl);
+
+		expect(events).toHaveLength(2);
+		expect(fetchUrl.mock.calls.map(([url]) => url.toString())).toEqual([
+			'https://example-bar.com/wp-json/tribe/events/v1/events/?per_page=1',
+			'https://example-bar.com/wp-json/tribe/events/v1/events/?per_page=1&page=2',
+		]);
+	});
+});
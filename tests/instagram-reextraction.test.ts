@@ -0,0 +1,51 @@
+import { createError } from 'h3';
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { commitInstagramReextraction } from '~~/server/utils/instagram-reextraction';
+
+// The Instagram client needs its credentials as soon as it's imported.
+vi.mock('~~/server/utils/instagram', () => ({ applyExtraction: vi.fn(), extractFromPost: vi.fn() }));
+
+describe('commitInstagramReextraction', () => {
+	it('commits a re-extraction only if it can claim it', async () => {
+		// Nitro provides this to the server code.
+		vi.stubGlobal('createError', createError);
+		const findUniqueOrThrow = vi.fn();
+		Object.assign(prisma, {
+			instagramReextraction: {
+				updateMany: vi.fn(async () => ({ count: 0 })),
+				count: vi.fn(async () => 1),
+				findUniqueOrThrow,
+			},
+		});
+
+		await expect(commitInstagramReextraction(5, null)).rejects.toMatchObject({ statusCode: 409 });
+		expect(prisma.instagramReextraction.updateMany).toHaveBeenCalledWith({
+			where: { id: 5, status: 'previewed' },
+			data: { status: 'committing' },
+		});
+		expect(findUniqueOrThrow).not.toHaveBeenCalled();
+	});
+
+	it('returns the re-extraction to previewed when a post fails', async () => {
+		const update = vi.fn(async () => ({}));
+		Object.assign(prisma, {
+			instagramReextraction: {
+				updateMany: vi.fn(async () => ({ count: 1 })),
+				findUniqueOrThrow: vi.fn(async () => ({
+					id: 5,
+					promptVersion: 1,
+					model: 'gpt-3.5-turbo',
+					posts: [{ postID: 'post', result: '{}' }],
+				})),
+				update,
+			},
+			instagramPost: {
+				findUniqueOrThrow: vi.fn(async () => { throw new Error('Post is gone'); }),
+			},
+		});
+
+		await expect(commitInstagramReextraction(5, null)).rejects.toThrow('Post is gone');
+		expect(update).toHaveBeenCalledWith({ where: { id: 5 }, data: { status: 'previewed' } });
+	});
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { completeValidated, LlmAttempt, LlmMessage, LlmValidationError } from '~~/server/utils/llm';
+import { StubProvider } from '~~/server/utils/llm/stub';
+import { extractVerifiedInstagramResult, fillInstagramResultDefaults, InstagramInferenceAttempt, INSTAGRAM_RESULT_SCHEMA, validateInstagramResult } from '~~/server/utils/instagram-result';
+import { OpenAiInstagramPostResult, OpenAiInstagramResult } from '~~/server/utils/openai';
+
+const RESULT: OpenAiInstagramResult = {
+	isEvent: true,
+	title: 'Drag Brunch',
+	startDay: 29,
+	endDay: null,
+	isPastEvent: false,
+	hasStartHourInPost: true,
+	startHourMilitaryTime: 11,
+	endHourMilitaryTime: 14,
+	startMinute: 30,
+	endMinute: null,
+	startMonth: 2,
+	endMonth: null,
+	startYear: 2028,
+	endYear: null,
+	venueName: 'The Stud',
+	venueAddress: '1123 Folsom St',
+	price: '$10-20 sliding scale',
+	ticketUrl: null,
+	ageRestriction: '21+',
+	description: null,
+};
+
+// A reply with the given events.
+function reply(...events: unknown[]): string {
+	return JSON.stringify({ events });
+}
+
+function issues(reply: string): string[] {
+	try {
+		validateInstagramResult(reply);
+	} catch (e) {
+		if (e instanceof LlmValidationError) {
+			return e.issues;
+		}
+		throw e;
+	}
+	return [];
+}
+
+describe('validateInstagramResult', () => {
+	it('accepts valid results', () => {
+		expect(validateInstagramResult(reply(RESULT, { ...RESULT, startDay: 28 }))).toEqual({ events: [RESULT, { ...RESULT, startDay: 28 }] });
+		expect(validateInstagramResult(reply())).toEqual({ events: [] });
+	});
+
+	it('rejects replies that are not lists of events', () => {
+		expect(issues('Sure! Here is the JSON: {}')[0]).toMatch(/^The reply is not valid JSON/);
+		expect(issues(JSON.stringify(RESULT))).toEqual(['The reply must be a JSON object with a list of events']);
+		expect(issues(reply(...Array(32).fill(RESULT)))).toEqual(['The reply must have at most 31 events']);
+	});
+
+	it('lists missing fields and wrong types', () => {
+		const { isEvent, startMonth, ...rest } = RESULT;
+
+		expect(issues(reply(RESULT, { ...rest, title: 5, hasStartHourInPost: 'yes' }, 'event'))).toEqual([
+			'events[1]: isEvent is missing',
+			'events[1]: hasStartHourInPost must be true or false',
+			'events[1]: title must be a string or null',
+			'events[1]: startMonth is missing',
+			'events[2]: must be a JSON object',
+		]);
+	});
+
+	it('checks ranges', () => {
+		expect(issues(reply({ ...RESULT, startMonth: 13, startHourMilitaryTime: 24, endMinute: 7.5 }))).toEqual([
+			'events[0]: startHourMilitaryTime must be null or a whole number from 0 to 23, not 24',
+			'events[0]: endMinute must be null or a whole number from 0 to 59, not 7.5',
+			'events[0]: startMonth must be null or a whole number from 1 to 12, not 13',
+		]);
+	});
+
+	it('checks the details of events', () => {
+		expect(issues(reply({ ...RESULT, price: 10, ticketUrl: 'linktr.ee/stud', description: 'x'.repeat(501) }))).toEqual([
+			'events[0]: price must be a string or null',
+			'events[0]: description must be at most 500 characters long',
+			'events[0]: ticketUrl must be a link starting with https://, not "linktr.ee/stud"',
+		]);
+		expect(validateInstagramResult(reply({ ...RESULT, ticketUrl: 'https://linktr.ee/stud' })).events[0].ticketUrl).toBe('https://linktr.ee/stud');
+	});
+
+	it('checks that days exist in their month', () => {
+		expect(issues(reply({ ...RESULT, startYear: 2027 }))).toEqual([
+			'events[0]: startDay 29 does not exist in month 2 of 2027, which has 28 days',
+		]);
+		expect(issues(reply({ ...RESULT, endDay: 31, endMonth: 4 }))).toEqual([
+			'events[0]: endDay 31 does not exist in month 4 of 2028, which has 30 days',
+		]);
+	});
+});
+
+describe('fillInstagramResultDefaults', () => {
+	it('fills in what the post did not say', () => {
+		expect(fillInstagramResultDefaults({ ...RESULT, startDay: 28, endHourMilitaryTime: null })).toMatchObject({
+			endDay: 28,
+			endHourMilitaryTime: 13,
+			endMinute: 0,
+			endMonth: 2,
+			endYear: 2028,
+		});
+	});
+});
+
+describe('completeValidated', () => {
+	it('feeds validation errors back to the model', async () => {
+		const conversations: LlmMessage[][] = [];
+		const replies = [reply({ isEvent: true }), reply(RESULT)];
+		const provider = new StubProvider((messages, options) => {
+			expect(options.schema).toBe(INSTAGRAM_RESULT_SCHEMA);
+			conversations.push([...messages]);
+			return replies.shift()!;
+		});
+
+		const transcript: LlmAttempt[] = [];
+		const result = await completeValidated([{ role: 'system', content: 'prompt' }], INSTAGRAM_RESULT_SCHEMA, validateInstagramResult, { provider, transcript });
+
+		expect(result).toEqual({ events: [RESULT] });
+		expect(transcript).toEqual([
+			{ messages: conversations[0], reply: { content: reply({ isEvent: true }), model: 'stub', usage: null }, issues: expect.arrayContaining(['events[0]: title is missing']) },
+			{ messages: conversations[1], reply: { content: reply(RESULT), model: 'stub', usage: null }, issues: null },
+		]);
+		expect(conversations).toHaveLength(2);
+		expect(conversations[1][1]).toEqual({ role: 'assistant', content: reply({ isEvent: true }) });
+		expect(conversations[1][2].role).toBe('user');
+		expect(conversations[1][2].content).toContain('- events[0]: title is missing');
+	});
+
+	it('gives up after the last attempt', async () => {
+		const provider = new StubProvider(() => 'not JSON');
+
+		await expect(completeValidated([], INSTAGRAM_RESULT_SCHEMA, validateInstagramResult, { provider, maxAttempts: 2 })).rejects.toThrow(LlmValidationError);
+	});
+});
+
+describe('extractVerifiedInstagramResult', () => {
+	// Replies to the initial prompt with `initial`, and to the repair prompts with `repairs` in order.
+	function provider(initial: OpenAiInstagramPostResult, ...repairs: OpenAiInstagramPostResult[]) {
+		return new StubProvider(([message]) => JSON.stringify(message.content === 'initial' ? initial : repairs.shift()));
+	}
+	const repairPrompt = (json: string) => `repair ${json}`;
+	const lineup = { events: [RESULT, { ...RESULT, startDay: 28 }] };
+
+	it('keeps results that the verification pass agrees with', async () => {
+		const verified = await extractVerifiedInstagramResult('initial', repairPrompt, provider(lineup, lineup));
+
+		expect(verified).toEqual({ initial: lineup, repaired: lineup, result: lineup });
+	});
+
+	it('keeps repairs that a second verification pass agrees with', async () => {
+		const repaired = { events: [{ ...RESULT, hasStartHourInPost: false }] };
+
+		const verified = await extractVerifiedInstagramResult('initial', repairPrompt, provider({ events: [RESULT] }, repaired, repaired));
+
+		expect(verified).toEqual({ initial: { events: [RESULT] }, repaired, result: repaired });
+	});
+
+	it('drops results that the passes keep disagreeing about', async () => {
+		const verified = await extractVerifiedInstagramResult('initial', repairPrompt, provider(lineup, { events: [RESULT] }, lineup));
+
+		expect(verified).toEqual({ initial: lineup, repaired: lineup, result: null });
+	});
+
+	it('records the requests of every pass', async () => {
+		const transcript: InstagramInferenceAttempt[] = [];
+
+		await extractVerifiedInstagramResult('initial', repairPrompt, provider(lineup, { events: [RESULT] }, lineup), transcript);
+
+		expect(transcript.map(attempt => [attempt.pass, attempt.messages[0].content.split(' ')[0], attempt.issues])).toEqual([
+			['initial', 'initial', null],
+			['verification', 'repair', null],
+			['recheck', 'repair', null],
+		]);
+	});
+
+	it('records the requests of passes that failed', async () => {
+		const transcript: InstagramInferenceAttempt[] = [];
+		const invalid = new StubProvider(([message]) => message.content === 'initial' ? reply(RESULT) : 'not JSON');
+
+		await expect(extractVerifiedInstagramResult('initial', repairPrompt, invalid, transcript)).rejects.toThrow(LlmValidationError);
+		expect(transcript.map(attempt => attempt.pass)).toEqual(['initial', 'verification', 'verification', 'verification']);
+	});
+});
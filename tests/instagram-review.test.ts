@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { hasUpcomingEvents, instagramExtractionOutcome, needsReview, publishInstagramReview, scoreInstagramExtraction } from '~~/server/utils/instagram-review';
+import { OpenAiInstagramPostResult, OpenAiInstagramResult } from '~~/server/utils/openai';
+
+const POST_DATE = new Date('2028-02-20T18:00:00Z');
+
+const EVENT: OpenAiInstagramResult = {
+	isEvent: true,
+	title: 'Drag Brunch',
+	startDay: 29,
+	endDay: null,
+	isPastEvent: false,
+	hasStartHourInPost: true,
+	startHourMilitaryTime: 11,
+	endHourMilitaryTime: 14,
+	startMinute: 30,
+	endMinute: null,
+	startMonth: 2,
+	endMonth: null,
+	startYear: 2028,
+	endYear: null,
+	venueName: 'The Stud',
+	venueAddress: '1123 Folsom St',
+	price: null,
+	ticketUrl: null,
+	ageRestriction: null,
+	description: null,
+};
+
+function result(...events: Partial<OpenAiInstagramResult>[]): OpenAiInstagramPostResult {
+	return { events: events.map(event => ({ ...EVENT, ...event })) };
+}
+
+describe('scoreInstagramExtraction', () => {
+	it('trusts results that the verification pass left alone', () => {
+		const verified = result({});
+		const score = scoreInstagramExtraction({ initial: verified, repaired: verified, result: verified }, POST_DATE);
+
+		expect(score.confidence).toBe(1);
+		expect(score.reasons).toEqual([]);
+		expect(hasUpcomingEvents(score)).toBe(true);
+		expect(needsReview(score)).toBe(false);
+		expect(instagramExtractionOutcome(score)).toBe('publish');
+	});
+
+	it('is less confident in results that the verification pass corrected', () => {
+		const repaired = result({ startDay: 28 });
+		const score = scoreInstagramExtraction({ initial: result({}), repaired, result: repaired }, POST_DATE);
+
+		expect(score.confidence).toBe(0.8);
+		expect(score.events[0].startDay).toBe(28);
+		expect(needsReview(score)).toBe(false);
+	});
+
+	it('queues results that the passes disagree on for review', () => {
+		const score = scoreInstagramExtraction({ initial: result({}), repaired: result({ startDay: 28 }), result: null }, POST_DATE);
+
+		expect(score.confidence).toBe(0.3);
+		expect(score.events[0].startDay).toBe(28);
+		expect(needsReview(score)).toBe(true);
+		expect(instagramExtractionOutcome(score)).toBe('review');
+	});
+
+	it('is less confident in events without an end time, or far from the post date', () => {
+		const verified = result({ endHourMilitaryTime: null }, { startMonth: 12 }, { startMonth: 1, startDay: 2 });
+		const score = scoreInstagramExtraction({ initial: verified, repaired: verified, result: verified }, POST_DATE);
+
+		expect(score.confidence).toBeCloseTo(0.9 * 0.5 * 0.5);
+		expect(score.reasons).toEqual([
+			'Event 1 (Drag Brunch) has no end time, it was assumed to last 2 hours',
+			'Event 2 (Drag Brunch) starts more than 6 months after it was posted',
+			'Event 3 (Drag Brunch) starts before it was posted',
+		]);
+	});
+
+	it('queues events without a start time for review', () => {
+		const verified = result({ hasStartHourInPost: false, startHourMilitaryTime: null });
+		const score = scoreInstagramExtraction({ initial: verified, repaired: verified, result: verified }, POST_DATE);
+
+		expect(score.partial).toBe(true);
+		expect(score.reasons).toEqual(['Event 1 (Drag Brunch) has no start time']);
+		expect(needsReview(score)).toBe(true);
+	});
+
+	it('ignores posts that are not about upcoming events', () => {
+		const verified = result({ isPastEvent: true });
+		const score = scoreInstagramExtraction({ initial: verified, repaired: verified, result: verified }, POST_DATE);
+
+		expect(hasUpcomingEvents(score)).toBe(false);
+		expect(instagramExtractionOutcome(score)).toBe('none');
+	});
+});
+
+describe('publishInstagramReview', () => {
+	it('replaces the events of the post in one transaction', async () => {
+		const transaction = vi.fn(async (writes: unknown[]) => writes);
+		Object.assign(prisma, {
+			$transaction: transaction,
+			instagramPost: {
+				findUnique: vi.fn(async () => ({
+					id: 'post',
+					url: 'https://www.instagram.com/p/post/',
+					reviewStatus: 'pending',
+					organizerId: 3,
+					organizer: { username: 'thestud' },
+					events: [],
+				})),
+				update: vi.fn(args => ({ model: 'instagramPost', args })),
+			},
+			instagramEvent: {
+				deleteMany: vi.fn(args => ({ model: 'instagramEvent', args })),
+				create: vi.fn(args => ({ model: 'instagramEvent', args, ...args.data })),
+			},
+			eventCluster: { findMany: vi.fn(async () => []) },
+		});
+
+		await publishInstagramReview('post', {
+			events: [{ title: 'Drag Brunch', start: '2028-02-29T11:30', end: '2028-02-29T14:00' }],
+		});
+
+		expect(transaction).toHaveBeenCalledTimes(1);
+		const writes = transaction.mock.calls[0][0] as { model: string, args: any }[];
+		expect(writes.map(write => write.model)).toEqual(['instagramEvent', 'instagramPost', 'instagramEvent']);
+		expect(writes[0].args).toEqual({ where: { postID: 'post' } });
+		expect(writes[2].args.data).toMatchObject({ postID: 'post', index: 0, title: 'Drag Brunch @ thestud' });
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLlmProvider, llmConfigFromEnv } from '~~/server/utils/llm';
+import { OpenAiProvider } from '~~/server/utils/llm/openai';
+import { StubProvider } from '~~/server/utils/llm/stub';
+
+describe('llmConfigFromEnv', () => {
+	it('defaults to gpt-3.5-turbo on OpenAI', () => {
+		expect(llmConfigFromEnv({ OPENAI_API_KEY: 'key' })).toEqual({
+			provider: 'openai',
+			model: 'gpt-3.5-turbo',
+			temperature: 0,
+			maxTokens: 2000,
+			baseUrl: null,
+			apiKey: 'key',
+		});
+	});
+
+	it('reads an OpenAI-compatible server without an API key', () => {
+		expect(llmConfigFromEnv({
+			LLM_PROVIDER: 'openai-compatible',
+			LLM_BASE_URL: 'http://localhost:11434/v1',
+			LLM_MODEL: 'llama3',
+			LLM_TEMPERATURE: '0.2',
+			LLM_MAX_TOKENS: '1000',
+		})).toEqual({
+			provider: 'openai-compatible',
+			model: 'llama3',
+			temperature: 0.2,
+			maxTokens: 1000,
+			baseUrl: 'http://localhost:11434/v1',
+			apiKey: null,
+		});
+	});
+
+	it('prefers LLM_API_KEY over OPENAI_API_KEY', () => {
+		expect(llmConfigFromEnv({ LLM_API_KEY: 'llm', OPENAI_API_KEY: 'openai' }).apiKey).toBe('llm');
+	});
+
+	it('rejects invalid configurations', () => {
+		expect(() => llmConfigFromEnv({})).toThrow('OPENAI_API_KEY not found.');
+		expect(() => llmConfigFromEnv({ LLM_PROVIDER: 'openai-compatible' })).toThrow('LLM_BASE_URL');
+		expect(() => llmConfigFromEnv({ LLM_PROVIDER: 'claude' })).toThrow('LLM_PROVIDER must be one of');
+		expect(() => llmConfigFromEnv({ LLM_PROVIDER: 'stub', LLM_MAX_TOKENS: 'many' })).toThrow('LLM_MAX_TOKENS');
+	});
+});
+
+describe('createLlmProvider', () => {
+	it('creates the configured provider', () => {
+		expect(createLlmProvider(llmConfigFromEnv({ OPENAI_API_KEY: 'key' }))).toBeInstanceOf(OpenAiProvider);
+		expect(createLlmProvider(llmConfigFromEnv({ LLM_PROVIDER: 'stub' }))).toBeInstanceOf(StubProvider);
+	});
+});
+
+describe('StubProvider', () => {
+	it('replies that posts are not events by default', async () => {
+		const reply = await new StubProvider().complete([{ role: 'system', content: 'prompt' }]);
+
+		expect(reply.model).toBe('stub');
+		expect(JSON.parse(reply.content!)).toEqual({ events: [] });
+	});
+
+	it('replies with LLM_STUB_RESPONSE', async () => {
+		vi.stubEnv('LLM_STUB_RESPONSE', '{"isEvent":true}');
+
+		expect((await new StubProvider().complete([])).content).toBe('{"isEvent":true}');
+	});
+
+	it('computes its reply from the prompt', async () => {
+		const provider = new StubProvider(messages => messages.map(m => m.content).join('\n'));
+
+		expect((await provider.complete([{ role: 'system', content: 'a' }, { role: 'user', content: 'b' }])).content).toBe('a\nb');
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { createOcrProvider, ocrConfigFromEnv } from '~~/server/utils/ocr';
+import { GoogleVisionOcrProvider } from '~~/server/utils/ocr/google-vision';
+import { StubOcrProvider } from '~~/server/utils/ocr/stub';
+import { TesseractOcrProvider } from '~~/server/utils/ocr/tesseract';
+
+const FAKE_TESSERACT = fileURLToPath(new URL('./fixtures/ocr/tesseract.sh', import.meta.url));
+
+describe('ocrConfigFromEnv', () => {
+	it('defaults to Google Cloud Vision', () => {
+		expect(ocrConfigFromEnv({
+			GOOGLE_CLOUD_VISION_PRIVATE_KEY: 'line 1\\nline 2',
+			GOOGLE_CLOUD_VISION_CLIENT_EMAIL: 'ocr@example.com',
+		})).toEqual({
+			provider: 'google-vision',
+			googleVision: { privateKey: 'line 1\nline 2', clientEmail: 'ocr@example.com' },
+			tesseractPath: 'tesseract',
+			tesseractLanguages: 'eng',
+		});
+	});
+
+	it('reads Tesseract without any credentials', () => {
+		expect(ocrConfigFromEnv({ OCR_PROVIDER: 'tesseract', TESSERACT_PATH: '/opt/bin/tesseract', TESSERACT_LANGUAGES: 'eng+spa' })).toEqual({
+			provider: 'tesseract',
+			googleVision: null,
+			tesseractPath: '/opt/bin/tesseract',
+			tesseractLanguages: 'eng+spa',
+		});
+	});
+
+	it('rejects invalid configurations', () => {
+		expect(() => ocrConfigFromEnv({})).toThrow('GOOGLE_CLOUD_VISION_PRIVATE_KEY not found.');
+		expect(() => ocrConfigFromEnv({ GOOGLE_CLOUD_VISION_PRIVATE_KEY: 'key' })).toThrow('GOOGLE_CLOUD_VISION_CLIENT_EMAIL not found.');
+		expect(() => ocrConfigFromEnv({ OCR_PROVIDER: 'textract' })).toThrow('OCR_PROVIDER must be one of');
+	});
+});
+
+describe('createOcrProvider', () => {
+	it('creates the configured provider', () => {
+		const credentials = { GOOGLE_CLOUD_VISION_PRIVATE_KEY: 'key', GOOGLE_CLOUD_VISION_CLIENT_EMAIL: 'ocr@example.com' };
+
+		expect(createOcrProvider(ocrConfigFromEnv(credentials))).toBeInstanceOf(GoogleVisionOcrProvider);
+		expect(createOcrProvider(ocrConfigFromEnv({ OCR_PROVIDER: 'tesseract' }))).toBeInstanceOf(TesseractOcrProvider);
+		expect(createOcrProvider(ocrConfigFromEnv({ OCR_PROVIDER: 'stub' }))).toBeInstanceOf(StubOcrProvider);
+	});
+});
+
+describe('TesseractOcrProvider', () => {
+	it('passes the image on stdin and reads the text from stdout', async () => {
+		const text = await new TesseractOcrProvider(FAKE_TESSERACT, 'eng+spa').recognize(Buffer.from('image'));
+
+		expect(text).toBe('stdin stdout -l eng+spa\n5');
+	});
+
+	it('fails with what Tesseract printed', async () => {
+		await expect(new TesseractOcrProvider(FAKE_TESSERACT, 'unknown').recognize(Buffer.from('image'))).rejects.toThrow("Failed loading language 'unknown'");
+	});
+
+	it('fails when Tesseract takes too long', async () => {
+		await expect(new TesseractOcrProvider(FAKE_TESSERACT, 'stuck', 100).recognize(Buffer.from('image'))).rejects.toThrow('did not finish within 100ms');
+	});
+
+	it('fails when Tesseract is not installed', async () => {
+		await expect(new TesseractOcrProvider('/nonexistent/tesseract', 'eng').recognize(Buffer.from('image'))).rejects.toThrow('ENOENT');
+	});
+});
+
+describe('StubOcrProvider', () => {
+	it('finds no text by default', async () => {
+		expect(await new StubOcrProvider().recognize(Buffer.from('image'))).toBe('');
+	});
+
+	it('finds OCR_STUB_TEXT', async () => {
+		vi.stubEnv('OCR_STUB_TEXT', 'DRAG BRUNCH 11AM');
+
+		expect(await new StubOcrProvider().recognize(Buffer.from('image'))).toBe('DRAG BRUNCH 11AM');
+	});
+});
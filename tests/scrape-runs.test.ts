@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { fetchSourceHealth, recordScrapeRun } from '~~/server/utils/scrape-runs';
+import { freezeTime } from './helpers';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function run(hoursAgo: number, error: string | null = null) {
+	return {
+		startedAt: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000),
+		finishedAt: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000),
+		httpStatus: error ? 500 : 200,
+		notModified: false,
+		eventsFound: 0,
+		eventsNew: 0,
+		eventsUpdated: 0,
+		eventsCancelled: 0,
+		error,
+	};
+}
+
+function urlSource(id: number, scrapeRuns: ReturnType<typeof run>[]) {
+	return { id, sourceName: `Source ${id}`, sourceType: 'ical', sourceCity: 'Oakland', disabled: false, scrapeRuns, _count: { events: 3 } };
+}
+
+describe('fetchSourceHealth', () => {
+	it('summarizes every source with a fixed number of queries', async () => {
+		const failedHistory = Array.from({ length: 48 }, (_, i) => run(i + 1, 'HttpError: 500'));
+		const groupBy = vi.fn(async (args: any) => args._max
+			? [{ urlSourceId: 1, instagramOrganizerId: null, _max: { startedAt: run(2).startedAt } }, { urlSourceId: 3, instagramOrganizerId: null, _max: { startedAt: run(100).startedAt } }]
+			: [{ urlSourceId: 3, instagramOrganizerId: null, _count: { _all: 99 } }]);
+		Object.assign(prisma, {
+			urlSource: {
+				findMany: vi.fn(async () => [
+					urlSource(1, [run(1, 'HttpError: 503'), run(2), run(3, 'HttpError: 404')]),
+					urlSource(2, []),
+					urlSource(3, failedHistory),
+				]),
+			},
+			instagramEventOrganizer: { findMany: vi.fn(async () => []) },
+			// Anything but these two queries would fail.
+			scrapeRun: { groupBy },
+		});
+
+		const health = await fetchSourceHealth();
+
+		expect(health.map(({ id, lastRunAt, lastSuccessAt, consecutiveFailures, lastError }) => ({ id, lastRunAt, lastSuccessAt, consecutiveFailures, lastError }))).toEqual([
+			{ id: 1, lastRunAt: run(1).startedAt, lastSuccessAt: run(2).startedAt, consecutiveFailures: 1, lastError: 'HttpError: 503' },
+			{ id: 2, lastRunAt: null, lastSuccessAt: null, consecutiveFailures: 0, lastError: null },
+			{ id: 3, lastRunAt: run(1).startedAt, lastSuccessAt: run(100).startedAt, consecutiveFailures: 99, lastError: 'HttpError: 500' },
+		]);
+		expect(groupBy).toHaveBeenCalledTimes(2);
+		expect(groupBy.mock.calls[1][0].where.OR).toEqual([{ urlSourceId: 3, startedAt: { gt: run(100).startedAt } }]);
+	});
+});
+
+describe('recordScrapeRun', () => {
+	it('deletes the runs of the source that are older than 90 days', async () => {
+		freezeTime(NOW.toISOString());
+		Object.assign(prisma, { scrapeRun: { create: vi.fn(), deleteMany: vi.fn() } });
+
+		await recordScrapeRun({ urlSourceId: 4 }, { startedAt: NOW });
+
+		expect(prisma.scrapeRun.deleteMany).toHaveBeenCalledWith({
+			where: { urlSourceId: 4, startedAt: { lt: new Date('2024-12-01T12:00:00Z') } },
+		});
+	});
+});
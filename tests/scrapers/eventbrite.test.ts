@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventbriteScraper } from '~~/server/utils/sources/eventbrite';
+import { requests, stubFetch } from '../fetch-stub';
+import { urlSource } from '../helpers';
+
+const ORGANIZER_URL = 'https://www.eventbrite.com/o/queer-collective-59091484033';
+
+describe('EventbriteScraper', () => {
+	it('converts the JSON-LD of the organizer page, and splits series into their events', async () => {
+		vi.stubEnv('EVENTBRITE_API_KEY', 'test-key');
+		const fetch = stubFetch({
+			[ORGANIZER_URL]: 'eventbrite/organizer.html',
+			'https://www.eventbriteapi.com/v3/series/1012345678903/events/?token=test-key': 'eventbrite/series.json',
+		});
+
+		const events = await new EventbriteScraper().scrape(urlSource({
+			sourceType: 'eventbrite',
+			url: ORGANIZER_URL,
+			sourceID: '59091484033',
+			sourceName: 'Queer Collective',
+		}));
+
+		expect(events).toEqual([
+			{
+				externalId: 'https://www.eventbrite.com/e/disco-inferno-tickets-1012345678901#2025-03-08T05:00:00.000Z',
+				title: 'Disco Inferno @ Queer Collective',
+				start: new Date('2025-03-08T05:00:00Z'),
+				end: new Date('2025-03-08T10:00:00Z'),
+				url: 'https://www.eventbrite.com/e/disco-inferno-tickets-1012345678901',
+				extendedProps: {
+					description: 'Dance the night away.',
+					image: 'https://img.evbuc.com/disco.jpg',
+					location: {
+						geoJSON: { type: 'Point', coordinates: [-122.4108, 37.7749] },
+						eventVenue: {
+							name: 'The Stud',
+							address: {
+								streetAddress: '1123 Folsom St',
+								addressLocality: 'San Francisco',
+								addressRegion: 'CA',
+								postalCode: '94103',
+								addressCountry: 'US',
+							},
+							geo: { '@type': 'GeoCoordinates', latitude: '37.7749', longitude: '-122.4108' },
+						},
+					},
+				},
+			},
+			// Without a UTC offset, the time is in Pacific time, which is daylight saving time by the 14th.
+			{
+				externalId: 'https://www.eventbrite.com/e/queer-trivia-tickets-1012345678902#2025-03-15T02:00:00.000Z',
+				title: 'Queer Trivia @ Queer Collective',
+				start: new Date('2025-03-15T02:00:00Z'),
+				end: new Date('2025-03-15T04:30:00Z'),
+				url: 'https://www.eventbrite.com/e/queer-trivia-tickets-1012345678902',
+				extendedProps: {
+					description: null,
+					image: null,
+					location: {
+						geoJSON: null,
+						eventVenue: { name: 'Online', address: {} },
+					},
+				},
+			},
+			{
+				externalId: '1012345678911',
+				title: 'Drag Brunch @ Queer Collective',
+				start: new Date('2025-03-02T19:00:00Z'),
+				end: new Date('2025-03-02T22:00:00Z'),
+				url: 'https://www.eventbrite.com/e/drag-brunch-tickets-1012345678911',
+			},
+			{
+				externalId: '1012345678912',
+				title: 'Drag Brunch @ Queer Collective',
+				start: new Date('2025-03-30T18:00:00Z'),
+				end: new Date('2025-03-30T21:00:00Z'),
+				url: 'https://www.eventbrite.com/e/drag-brunch-tickets-1012345678912',
+			},
+		]);
+		expect(requests(fetch).map(r => r.url)).toEqual([
+			ORGANIZER_URL,
+			'https://www.eventbriteapi.com/v3/series/1012345678903/events/?token=test-key',
+		]);
+	});
+});
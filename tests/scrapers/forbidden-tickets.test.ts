@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ForbiddenTicketsScraper } from '~~/server/utils/sources/forbidden-tickets';
+import { stubFetch } from '../fetch-stub';
+import { urlSource } from '../helpers';
+
+const SOURCE_URL = 'https://forbiddentickets.com/events/bearnight/json';
+
+describe('ForbiddenTicketsScraper', () => {
+	it('tells apart the parts of an event by their start', async () => {
+		stubFetch({ [SOURCE_URL]: 'forbidden-tickets/events.json' });
+
+		const events = await new ForbiddenTicketsScraper().scrape(urlSource({ sourceType: 'forbidden', url: SOURCE_URL, sourceID: 'bearnight' }));
+
+		// The API's times are in UTC.
+		expect(events).toEqual([
+			{
+				externalId: 'https://forbiddentickets.com/events/bearnight/bear-night#2025-03-09T03:00:00.000Z',
+				title: 'Bear Night Part 1',
+				url: 'https://forbiddentickets.com/events/bearnight/bear-night',
+				start: new Date('2025-03-09T03:00:00Z'),
+				end: new Date('2025-03-09T07:00:00Z'),
+			},
+			{
+				externalId: 'https://forbiddentickets.com/events/bearnight/bear-night#2025-03-16T02:00:00.000Z',
+				title: 'Bear Night Part 2',
+				url: 'https://forbiddentickets.com/events/bearnight/bear-night',
+				start: new Date('2025-03-16T02:00:00Z'),
+				end: new Date('2025-03-16T06:00:00Z'),
+			},
+		]);
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GcalScraper } from '~~/server/utils/sources/google-calendar';
+import { requests, stubFetch } from '../fetch-stub';
+import { freezeTime, urlSource } from '../helpers';
+
+const CALENDAR_ID = 'queerhikers@group.calendar.google.com';
+const SOURCE_URL = `https://www.googleapis.com/calendar/v3/calendars/${CALENDAR_ID}/events`;
+
+describe('GcalScraper', () => {
+	it('lists each occurrence of recurring events', async () => {
+		freezeTime('2025-02-26T20:00:00Z');
+		vi.stubEnv('GOOGLE_CALENDAR_API_KEY', 'test-key');
+		const fetch = stubFetch({ [SOURCE_URL]: 'google-calendar/events.json' });
+
+		const events = await new GcalScraper().scrape(urlSource({
+			sourceType: 'google-calendar',
+			url: SOURCE_URL,
+			sourceID: CALENDAR_ID,
+			sourceName: 'Queer Hikers',
+		}));
+
+		// The times are passed on as the API's strings, with their UTC offsets, and parsed when they're stored.
+		expect(events).toEqual([
+			{
+				externalId: '4k2j3h4g5f6d7s8a9_20250308T180000Z',
+				title: 'Mount Tam Hike @ Queer Hikers',
+				start: '2025-03-08T10:00:00-08:00',
+				end: '2025-03-08T15:00:00-08:00',
+				url: 'https://www.google.com/calendar/event?eid=NGsyajNoNGc1ZjZkN3M4YTlfMjAyNTAzMDhUMTgwMDAwWg',
+			},
+			{
+				externalId: '4k2j3h4g5f6d7s8a9_20250315T170000Z',
+				title: 'Mount Tam Hike @ Queer Hikers',
+				start: '2025-03-15T10:00:00-07:00',
+				end: '2025-03-15T15:00:00-07:00',
+				url: 'https://www.google.com/calendar/event?eid=NGsyajNoNGc1ZjZkN3M4YTlfMjAyNTAzMTVUMTcwMDAwWg',
+			},
+		]);
+
+		const params = new URL(requests(fetch)[0].url).searchParams;
+		expect(params.get('singleEvents')).toBe('true');
+		expect(params.get('timeMin')).toBe('2024-12-26T20:00:00.000Z');
+		expect(params.get('timeMax')).toBe('2026-02-26T20:00:00.000Z');
+		expect(params.get('key')).toBe('test-key');
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { IcalScraper } from '~~/server/utils/sources/ical';
+import { stubFetch } from '../fetch-stub';
+import { freezeTime, urlSource } from '../helpers';
+
+const SOURCE_URL = 'https://queerboardgames.org/calendar.ics';
+const UTC_AS_PACIFIC_URL = 'https://downtowndance.example/calendar.ics';
+
+async function scrape() {
+	freezeTime('2025-02-26T20:00:00Z');
+	stubFetch({ [SOURCE_URL]: 'ical/calendar.ics' });
+
+	return await new IcalScraper().scrape(urlSource({ sourceType: 'ical', url: SOURCE_URL, sourceName: 'Queer Board Game Night' }));
+}
+
+describe('IcalScraper', () => {
+	it('lists each occurrence of recurring events, as they were moved or cancelled', async () => {
+		const events = await scrape();
+
+		// The weekly event is at 7pm Pacific on either side of the switch to daylight saving time, on March 9. The third
+		// occurrence is cancelled.
+		expect(events?.filter(e => e.externalId.startsWith('board-games@'))).toEqual([
+			{
+				externalId: 'board-games@queerboardgames.org/1741114800',
+				title: 'Board Game Night @ Queer Board Game Night',
+				start: new Date('2025-03-05T03:00:00Z'),
+				end: new Date('2025-03-05T06:00:00Z'),
+				url: 'https://queerboardgames.org/events/board-game-night',
+				extendedProps: {
+					description: 'Bring your favorite game.',
+					image: null,
+					location: {
+						geoJSON: { type: 'Point', coordinates: [-122.4148, 37.7599] },
+						eventVenue: {
+							name: 'Game Parlor',
+							address: {},
+							geo: { latitude: 37.7599, longitude: -122.4148 },
+						},
+					},
+				},
+			},
+			{
+				// Still identified by the Tuesday that it was scheduled for.
+				externalId: 'board-games@queerboardgames.org/1741719600',
+				title: 'Board Game Night (moved to Wednesday) @ Queer Board Game Night',
+				start: new Date('2025-03-13T02:00:00Z'),
+				end: new Date('2025-03-13T05:00:00Z'),
+				url: 'https://queerboardgames.org/events/board-game-night',
+				extendedProps: {
+					description: null,
+					image: null,
+					location: {
+						geoJSON: null,
+						eventVenue: { name: 'Game Parlor', address: {}, geo: null },
+					},
+				},
+			},
+		]);
+	});
+
+	it('reads floating times as Pacific time', async () => {
+		const events = await scrape();
+
+		// 1pm to 4pm, without a time zone. Events from last year, and events without a UID or summary, are left out.
+		expect(events?.filter(e => !e.externalId.startsWith('board-games@'))).toEqual([
+			{
+				externalId: 'swap-meet@queerboardgames.org',
+				title: 'Game Swap Meet @ Queer Board Game Night',
+				start: new Date('2025-03-15T20:00:00Z'),
+				end: new Date('2025-03-15T23:00:00Z'),
+				// The feed doesn't have URLs for its events.
+				url: SOURCE_URL,
+				extendedProps: {
+					description: null,
+					image: null,
+					location: {
+						geoJSON: null,
+						eventVenue: { name: null, address: {}, geo: null },
+					},
+				},
+			},
+		]);
+	});
+
+	it('uses the time zones that a feed defines only for that feed', async () => {
+		freezeTime('2025-02-26T20:00:00Z');
+		stubFetch({ [UTC_AS_PACIFIC_URL]: 'ical/utc-as-pacific.ics' });
+
+		// The feed defines `America/Los_Angeles` as UTC.
+		const otherEvents = await new IcalScraper().scrape(urlSource({ sourceType: 'ical', url: UTC_AS_PACIFIC_URL, sourceName: 'Downtown Dance Club' }));
+		expect(otherEvents?.map(e => e.start)).toEqual([new Date('2025-03-06T19:00:00Z')]);
+
+		const events = await scrape();
+		expect(events?.[0].start).toEqual(new Date('2025-03-05T03:00:00Z'));
+	});
+});
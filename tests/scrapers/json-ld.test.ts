@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { JsonLdScraper } from '~~/server/utils/sources/json-ld';
+import { stubFetch } from '../fetch-stub';
+import { urlSource } from '../helpers';
+
+const SOURCE_URL = 'https://rainbowroom.example/events';
+
+async function scrape() {
+	stubFetch({ [SOURCE_URL]: 'json-ld/events.html' });
+
+	return await new JsonLdScraper().scrape(urlSource({ sourceType: 'json-ld', url: SOURCE_URL, sourceName: 'The Rainbow Room' }));
+}
+
+describe('JsonLdScraper', () => {
+	it('finds events in @graph blocks, with their venues', async () => {
+		const events = await scrape();
+
+		expect(events?.[0]).toEqual({
+			externalId: 'https://rainbowroom.example/events/drag-bingo#event',
+			title: 'Drag Bingo @ The Rainbow Room',
+			start: new Date('2025-03-08T03:00:00Z'),
+			end: new Date('2025-03-08T06:00:00Z'),
+			url: 'https://rainbowroom.example/events/drag-bingo',
+			extendedProps: {
+				description: 'Bingo with your favorite queens.',
+				image: 'https://rainbowroom.example/images/drag-bingo.jpg',
+				location: {
+					geoJSON: { type: 'Point', coordinates: [-122.4351, 37.7625] },
+					eventVenue: {
+						name: 'The Rainbow Room',
+						address: {
+							streetAddress: '1 Castro St',
+							addressLocality: 'San Francisco',
+							addressRegion: 'CA',
+							postalCode: '94114',
+							addressCountry: 'US',
+						},
+						geo: { '@type': 'GeoCoordinates', latitude: 37.7625, longitude: -122.4351 },
+					},
+				},
+			},
+		});
+	});
+
+	it('tells the dates of recurring events apart, and reads floating times as Pacific time', async () => {
+		const events = await scrape();
+
+		// A weekly class at 10am, listed once for each date under the same URL and without an `@id`. Daylight saving time
+		// starts on March 9. The event without a valid date and the invalid block are skipped.
+		expect(events?.slice(1)).toEqual([
+			{
+				externalId: 'https://rainbowroom.example/events/queer-yoga#2025-03-02T18:00:00.000Z',
+				title: 'Queer Yoga @ The Rainbow Room',
+				start: new Date('2025-03-02T18:00:00Z'),
+				end: new Date('2025-03-02T19:00:00Z'),
+				url: 'https://rainbowroom.example/events/queer-yoga',
+				extendedProps: {
+					description: null,
+					image: null,
+					location: { geoJSON: null, eventVenue: { name: 'The Rainbow Room, upstairs', address: {} } },
+				},
+			},
+			{
+				externalId: 'https://rainbowroom.example/events/queer-yoga#2025-03-09T17:00:00.000Z',
+				title: 'Queer Yoga @ The Rainbow Room',
+				start: new Date('2025-03-09T17:00:00Z'),
+				end: new Date('2025-03-09T18:00:00Z'),
+				url: 'https://rainbowroom.example/events/queer-yoga',
+				extendedProps: {
+					description: null,
+					image: null,
+					location: { geoJSON: null, eventVenue: { name: 'The Rainbow Room, upstairs', address: {} } },
+				},
+			},
+		]);
+	});
+});
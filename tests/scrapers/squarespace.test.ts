@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { SquarespaceScraper } from '~~/server/utils/sources/squarespace';
+import { fixture, stubFetch } from '../fetch-stub';
+import { urlSource } from '../helpers';
+
+describe('SquarespaceScraper', () => {
+	it('reads the times as Pacific time, whatever the time zone of the site', async () => {
+		stubFetch({ 'https://oaklandqueer.org/events?format=json': 'squarespace/events.json' });
+		const raw = JSON.parse(fixture('squarespace/events.json')).upcoming;
+
+		const events = await new SquarespaceScraper().scrape(urlSource({
+			sourceType: 'squarespace',
+			url: 'https://oaklandqueer.org/events?format=json',
+			sourceName: 'Oakland Queer Collective',
+		}));
+
+		// The site says 9pm to midnight in New York.
+		expect(events).toEqual([
+			{
+				externalId: '65f0a1b2c3d4e5f6a7b8c9d0',
+				title: 'First Friday Social @ Oakland Queer Collective',
+				start: new Date('2025-03-08T05:00:00Z'),
+				end: new Date('2025-03-08T08:00:00Z'),
+				url: 'https://oaklandqueer.org/events/first-friday-social',
+				extendedProps: {
+					description: '<p>Meet the community.</p>',
+					image: 'https://images.squarespace-cdn.com/content/first-friday.jpg',
+					location: {
+						geoJSON: { type: 'Point', coordinates: [-122.2602, 37.8087] },
+						eventVenue: {
+							name: 'Lake Merritt Boathouse',
+							address: { streetAddress: '568 Bellevue Ave', addressCountry: 'United States' },
+							geo: { latitude: 37.8087, longitude: -122.2602 },
+						},
+					},
+					raw: raw[0],
+				},
+			},
+		]);
+	});
+});
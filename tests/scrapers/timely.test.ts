@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { TimelyScraper } from '~~/server/utils/sources/timely';
+import { requests, stubFetch } from '../fetch-stub';
+import { freezeTime, urlSource } from '../helpers';
+
+describe('TimelyScraper', () => {
+	it("converts the events of the month around now from each event's time zone", async () => {
+		freezeTime('2025-02-26T20:00:00Z');
+		const fetch = stubFetch({ 'https://timelyapp.time.ly/api/calendars/54714987/events': 'timely/events.json' });
+
+		const events = await new TimelyScraper().scrape(urlSource({
+			sourceType: 'timely',
+			url: 'https://timelyapp.time.ly/api/calendars/54714987/events',
+			sourceID: '54714987',
+			sourceName: 'SF Leather',
+		}));
+
+		const leatherWeekend = {
+			externalId: '98765001',
+			title: 'Leather Weekend @ SF Leather',
+			url: 'https://calendar.time.ly/abcdefgh/event/98765001',
+			start: new Date('2025-03-02T02:00:00Z'),
+			end: new Date('2025-03-03T07:00:00Z'),
+		};
+		// Multi-day events are listed under each of their days, `reconcileSourceEvents` keeps one of them.
+		expect(events).toEqual([
+			leatherWeekend,
+			leatherWeekend,
+			{
+				externalId: '98765002',
+				title: 'Book Club @ SF Leather',
+				url: 'https://calendar.time.ly/abcdefgh/event/98765002',
+				start: new Date('2025-03-12T22:30:00Z'),
+				end: new Date('2025-03-13T00:00:00Z'),
+			},
+		]);
+
+		const [request] = requests(fetch);
+		const params = new URL(request.url).searchParams;
+		expect(params.get('start_date_utc')).toBe('1738008000');
+		expect(params.get('end_date_utc')).toBe('1743192000');
+		expect(request.headers.get('x-api-key')).toBe('c6e5e0363b5925b28552de8805464c66f25ba0ce');
+	});
+});
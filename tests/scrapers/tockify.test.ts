@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TockifyScraper } from '~~/server/utils/sources/tockify';
+import { fixture, requests, stubFetch } from '../fetch-stub';
+import { freezeTime, urlSource } from '../helpers';
+
+const SOURCE_URL = 'https://tockify.com/api/ngevent?max=100&calname=thestud&start-inclusive=true&longForm=true&showAll=true';
+
+describe('TockifyScraper', () => {
+	it('converts the events from now on', async () => {
+		freezeTime('2025-02-26T20:00:00Z');
+		const fetch = stubFetch({ 'https://tockify.com/api/ngevent': 'tockify/events.json' });
+		const raw = JSON.parse(fixture('tockify/events.json')).events;
+
+		const events = await new TockifyScraper().scrape(urlSource({ sourceType: 'tockify', url: SOURCE_URL, sourceName: 'The Stud' }));
+
+		expect(events).toEqual([
+			{
+				externalId: '67a1f0c2e4b0a1b2c3d4e5f6/1741057200000',
+				title: 'Meow Mix @ The Stud',
+				start: new Date('2025-03-04T03:00:00Z'),
+				end: new Date('2025-03-04T07:00:00Z'),
+				url: 'https://tockify.com/thestud/detail/67a1f0c2e4b0a1b2c3d4e5f6/1741057200000',
+				extendedProps: {
+					description: 'Weekly drag show.',
+					image: null,
+					location: {
+						geoJSON: { type: 'Point', coordinates: [-122.4108, 37.7749] },
+						eventVenue: {
+							name: 'The Stud',
+							address: {
+								streetAddress: '1123 Folsom St',
+								addressLocality: 'San Francisco',
+								addressRegion: 'CA',
+								postalCode: '94103',
+								addressCountry: 'US',
+							},
+							geo: { latitude: 37.7749, longitude: -122.4108 },
+						},
+					},
+					raw: raw[0],
+				},
+			},
+			{
+				externalId: '67a1f0c2e4b0a1b2c3d4e5f7/1741662000000',
+				title: 'Sunday Tea Dance @ The Stud',
+				start: new Date('2025-03-11T03:00:00Z'),
+				end: new Date('2025-03-11T07:00:00Z'),
+				url: 'https://tickets.example.com/tea-dance',
+				extendedProps: {
+					description: '',
+					image: null,
+					location: {
+						geoJSON: null,
+						eventVenue: { name: '', address: {}, geo: {} },
+					},
+					raw: raw[1],
+				},
+			},
+		]);
+		expect(new URL(requests(fetch)[0].url).searchParams.get('startms')).toBe(String(Date.parse('2025-02-26T20:00:00Z')));
+	});
+});
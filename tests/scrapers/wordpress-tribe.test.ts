@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { WordpressTribeScraper } from '~~/server/utils/sources/wordpress-tribe';
+import { requests, stubFetch } from '../fetch-stub';
+import { urlSource } from '../helpers';
+
+const SOURCE_URL = 'https://example-bar.com/wp-json/tribe/events/v1/events/?per_page=1';
+
+describe('WordpressTribeScraper', () => {
+	it('follows the pages of the API', async () => {
+		const fetch = stubFetch({
+			'https://example-bar.com/wp-json/tribe/events/v1/events/': 'wordpress-tribe/events-page-1.json',
+			'https://example-bar.com/wp-json/tribe/events/v1/events/?page=2': 'wordpress-tribe/events-page-2.json',
+		});
+
+		const events = await new WordpressTribeScraper().scrape(urlSource({ sourceType: 'wordpress-tribe', url: SOURCE_URL }));
+
+		expect(events).toEqual([
+			{
+				externalId: '4211',
+				title: 'Karaoke Night',
+				start: new Date('2025-03-05T04:00:00Z'),
+				end: new Date('2025-03-05T08:00:00Z'),
+				url: 'https://example-bar.com/event/karaoke-night/',
+				extendedProps: {
+					description: '<p>Sing your heart out.</p>',
+					image: 'https://example-bar.com/wp-content/uploads/karaoke.jpg',
+					location: {
+						geoJSON: { type: 'Point', coordinates: [-122.4222, 37.7726] },
+						eventVenue: {
+							name: 'Example Bar',
+							address: {
+								streetAddress: '4 Valencia St',
+								addressLocality: 'San Francisco',
+								postalCode: '94103',
+								addressCountry: 'United States',
+							},
+							geo: { latitude: 37.7726, longitude: -122.4222 },
+						},
+					},
+				},
+			},
+			{
+				externalId: '4230',
+				title: 'Trans Joy Open Mic',
+				start: new Date('2025-03-13T02:30:00Z'),
+				end: new Date('2025-03-13T05:00:00Z'),
+				url: 'https://example-bar.com/event/trans-joy-open-mic/',
+				extendedProps: {
+					description: '',
+					image: undefined,
+					location: {
+						geoJSON: null,
+						eventVenue: {
+							name: 'Example Bar',
+							address: {
+								streetAddress: '4 Valencia St',
+								addressLocality: 'San Francisco',
+								postalCode: '94103',
+								addressCountry: 'United States',
+							},
+							geo: {},
+						},
+					},
+				},
+			},
+		]);
+		expect(requests(fetch).map(r => r.url)).toEqual([
+			SOURCE_URL,
+			'https://example-bar.com/wp-json/tribe/events/v1/events/?per_page=1&page=2',
+		]);
+	});
+});
@@ -0,0 +1,21 @@
+import { afterEach, vi } from 'vitest';
+
+// The tests never touch a database, and there may not be a Prisma engine to load. Tests that care about writes look at
+// the calls to these.
+vi.mock('~~/server/utils/db', () => ({
+	prisma: {
+		urlSource: {
+			update: vi.fn(),
+		},
+	},
+}));
+
+// The scrapers and `http.ts` import each other, which only works when `http.ts` is loaded first, as it is on the server.
+await import('~~/server/utils/http');
+
+afterEach(() => {
+	vi.clearAllMocks();
+	vi.unstubAllGlobals();
+	vi.unstubAllEnvs();
+	vi.useRealTimers();
+});
@@ -0,0 +1,78 @@
+import { createError } from 'h3';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertPublicUrl, fetchPublic } from '~~/server/utils/source-detection';
+import { requests, stubFetch } from './fetch-stub';
+
+beforeEach(() => {
+	// Nitro provides this to the server code.
+	vi.stubGlobal('createError', createError);
+});
+
+describe('assertPublicUrl', () => {
+	it.each([
+		'http://127.0.0.1:3000/',
+		'http://169.254.169.254/latest/meta-data/',
+		'http://[::1]/',
+		// Node writes IPv4 addresses inside IPv6 ones in hex: `[::ffff:7f00:1]` and `[::ffff:a9fe:a9fe]`.
+		'http://[::ffff:127.0.0.1]:3000/',
+		'http://[::ffff:169.254.169.254]/',
+		'http://[::7f00:1]/',
+		'http://[fd00::1]/',
+		'http://[fe80::1]/',
+		'http://224.0.0.1/',
+		'http://240.0.0.1/',
+		'http://255.255.255.255/',
+		'http://198.18.0.1/',
+		'http://192.0.0.1/',
+	])('rejects %s', async url => {
+		await expect(assertPublicUrl(new URL(url))).rejects.toMatchObject({ statusCode: 400 });
+	});
+
+	it.each([
+		'https://93.184.215.14/',
+		'https://[::ffff:93.184.215.14]/',
+		'https://[2606:2800:21f:cb07:6820:80da:af6b:8b2c]/',
+	])('accepts %s', async url => {
+		await expect(assertPublicUrl(new URL(url))).resolves.toBeUndefined();
+	});
+});
+
+describe('fetchPublic', () => {
+	it('follows redirects between public addresses', async () => {
+		const fetch = stubFetch({
+			'https://93.184.215.14/calendar': () => new Response(null, { status: 301, headers: { Location: '/events.ics' } }),
+			'https://93.184.215.14/events.ics': () => new Response('BEGIN:VCALENDAR'),
+		});
+
+		const response = await fetchPublic('https://93.184.215.14/calendar');
+
+		expect(await response.text()).toBe('BEGIN:VCALENDAR');
+		expect(requests(fetch).map(request => request.redirect)).toEqual(['manual', 'manual']);
+	});
+
+	it('does not follow redirects into our own network', async () => {
+		const fetch = stubFetch({
+			'https://93.184.215.14/calendar': () => new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data/' } }),
+		});
+
+		await expect(fetchPublic('https://93.184.215.14/calendar')).rejects.toMatchObject({ statusCode: 400 });
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not follow redirects to IPv4 addresses written as IPv6', async () => {
+		const fetch = stubFetch({
+			'https://93.184.215.14/calendar': () => new Response(null, { status: 302, headers: { Location: 'http://[::ffff:169.254.169.254]/latest/meta-data/' } }),
+		});
+
+		await expect(fetchPublic('https://93.184.215.14/calendar')).rejects.toMatchObject({ statusCode: 400 });
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('passes on the responses of failed requests, for the scrapers to handle', async () => {
+		stubFetch({ 'https://93.184.215.14/events.ics': () => new Response(null, { status: 404 }) });
+
+		const response = await fetchPublic('https://93.184.215.14/events.ics');
+
+		expect(response.status).toBe(404);
+	});
+});
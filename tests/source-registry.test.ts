@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { deleteInstagramOrganizer } from '~~/server/utils/source-registry';
+
+// A delegate whose writes return what they would delete, so that the transaction can be checked.
+function delegate(model: string) {
+	return {
+		deleteMany: vi.fn(args => ({ model, args })),
+		delete: vi.fn(args => ({ model, args })),
+	};
+}
+
+describe('deleteInstagramOrganizer', () => {
+	it('deletes the rows that reference the posts before the posts', async () => {
+		const transaction = vi.fn(async (writes: unknown[]) => writes);
+		Object.assign(prisma, {
+			$transaction: transaction,
+			instagramEventOrganizer: { ...delegate('instagramEventOrganizer'), findUnique: vi.fn(async () => ({ id: 3 })) },
+			instagramEvent: { ...delegate('instagramEvent'), findMany: vi.fn(async () => []) },
+			instagramImage: delegate('instagramImage'),
+			instagramInferenceAttempt: delegate('instagramInferenceAttempt'),
+			instagramReextractionPost: delegate('instagramReextractionPost'),
+			instagramPost: delegate('instagramPost'),
+			scrapeRun: delegate('scrapeRun'),
+			eventCluster: { findMany: vi.fn(async () => []) },
+		});
+
+		await deleteInstagramOrganizer(3);
+
+		const writes = transaction.mock.calls[0][0] as { model: string, args: unknown }[];
+		const models = writes.map(write => write.model);
+		expect(writes).toContainEqual({ model: 'instagramInferenceAttempt', args: { where: { post: { organizerId: 3 } } } });
+		expect(writes).toContainEqual({ model: 'instagramReextractionPost', args: { where: { post: { organizerId: 3 } } } });
+		expect(models.indexOf('instagramInferenceAttempt')).toBeLessThan(models.indexOf('instagramPost'));
+		expect(models.indexOf('instagramReextractionPost')).toBeLessThan(models.indexOf('instagramPost'));
+		expect(models.indexOf('instagramPost')).toBeLessThan(models.indexOf('instagramEventOrganizer'));
+	});
+});
@@ -0,0 +1,38 @@
+import { createError, getRequestHeader, readBody } from 'h3';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { prisma } from '~~/server/utils/db';
+import { previewSource, submitSource } from '~~/server/utils/source-submissions';
+import { requestFrom } from './helpers';
+
+// A calendar that can't be scraped, since it's in our own network.
+const INPUT = 'https://127.0.0.1/calendar.ics';
+
+function submission(remoteAddress: string) {
+	return requestFrom(remoteAddress, {}, { input: INPUT, name: 'Local Calendar', city: 'San Francisco' });
+}
+
+describe('source submissions', () => {
+	beforeEach(() => {
+		// Nitro provides these to the server code.
+		vi.stubGlobal('createError', createError);
+		vi.stubGlobal('getRequestHeader', getRequestHeader);
+		vi.stubGlobal('readBody', readBody);
+		vi.stubEnv('CLIENT_IP_HEADER', 'none');
+		Object.assign(prisma, {
+			urlSource: { findUnique: vi.fn(async () => null) },
+			sourceSubmission: { count: vi.fn(async () => 0), findFirst: vi.fn(async () => null), create: vi.fn() },
+		});
+	});
+
+	it('limits the previews and submissions of an address, including failed ones', async () => {
+		for (let i = 0; i < 10; i++) {
+			await expect(previewSource(requestFrom('203.0.113.1', {}, { input: INPUT }))).rejects.toMatchObject({ statusCode: 422 });
+			await expect(submitSource(submission('203.0.113.1'))).rejects.toMatchObject({ statusCode: 422 });
+		}
+
+		await expect(submitSource(submission('203.0.113.1'))).rejects.toMatchObject({ statusCode: 429 });
+		await expect(previewSource(requestFrom('203.0.113.1', {}, { input: INPUT }))).rejects.toMatchObject({ statusCode: 429 });
+		await expect(submitSource(submission('203.0.113.2'))).rejects.toMatchObject({ statusCode: 422 });
+		expect(prisma.sourceSubmission.create).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,33 @@
+import { getRequestHeader } from 'h3';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hashIp } from '~~/server/utils/submissions';
+import { requestFrom } from './helpers';
+
+describe('hashIp', () => {
+	beforeEach(() => {
+		// Nitro provides this to the server code.
+		vi.stubGlobal('getRequestHeader', getRequestHeader);
+	});
+
+	it('uses the address that the proxy added to X-Forwarded-For', () => {
+		const spoofed = requestFrom('10.0.0.1', { 'x-forwarded-for': '198.51.100.7, 203.0.113.5' });
+		const honest = requestFrom('10.0.0.1', { 'x-forwarded-for': '203.0.113.5' });
+
+		expect(hashIp(spoofed)).toBe(hashIp(honest));
+		expect(hashIp(spoofed)).not.toBe(hashIp(requestFrom('10.0.0.1', { 'x-forwarded-for': '198.51.100.7' })));
+	});
+
+	it('uses the header that CLIENT_IP_HEADER names', () => {
+		vi.stubEnv('CLIENT_IP_HEADER', 'x-real-ip');
+		const request = requestFrom('10.0.0.1', { 'x-forwarded-for': '198.51.100.7', 'x-real-ip': '203.0.113.5' });
+
+		expect(hashIp(request)).toBe(hashIp(requestFrom('10.0.0.2', { 'x-real-ip': '203.0.113.5' })));
+	});
+
+	it('uses the address of the connection without a proxy', () => {
+		vi.stubEnv('CLIENT_IP_HEADER', 'none');
+
+		expect(hashIp(requestFrom('203.0.113.5', { 'x-forwarded-for': '198.51.100.7' })))
+			.toBe(hashIp(requestFrom('203.0.113.5', {})));
+	});
+});
@@ -34,4 +34,322 @@ export interface CityEventListing {
 	city: string
 	events: any[]
 	organizer: string
+	sourceType?: string
+}
+
+// The single shape that every event is returned in from `/api/events`, regardless of where we got it from.
+export interface NormalizedEvent {
+	// Stable across scrapes, e.g. `url-event-12` or `instagram-event-<post ID>`.
+	id: string
+	title: string
+	start: Date
+	end: Date
+	url: string
+	// `cancelled` events are ones that their source stopped listing. They are kept so that calendar apps that already
+	// have them can show them as cancelled.
+	status: 'scheduled' | 'cancelled'
+	city: string
+	organizer: string
+	sourceType: string
+	venue: EventVenue | null
+	description: string | null
+	tickets: EventTickets | null
+	images: string[]
+	provenance: EventProvenance
+	// Set when this event has been identified as the same as events from other sources, see `server/utils/dedup.ts`.
+	clusterId: number | null
+	// Every listing of this event. `/api/events` only returns one event per cluster, which links to all of them here.
+	sources: EventSourceLink[]
+}
+
+export interface EventSourceLink {
+	// The `NormalizedEvent.id` of the listing.
+	id: string
+	url: string
+	organizer: string
+	sourceType: string
+}
+
+export interface EventVenue {
+	name?: string
+	address?: {
+		streetAddress?: string
+		addressLocality?: string
+		addressRegion?: string
+		postalCode?: string
+		addressCountry?: string
+	}
+	geo?: { latitude: number, longitude: number }
+}
+
+// What it takes to get in, as written by the organizer, e.g. `$10-20 sliding scale` and `21+`.
+export interface EventTickets {
+	price?: string
+	url?: string
+	ageRestriction?: string
+}
+
+// Where an event came from, so that it can be traced back to the row and source it was scraped from.
+export type EventProvenance = {
+	kind: 'url'
+	sourceId: number
+	eventId: number
+	scrapedAt: Date
+} | {
+	kind: 'instagram'
+	// `InstagramEventOrganizer.id`
+	sourceId: number
+	postId: string
+	// `InstagramEvent.index`, posts can have more than one event.
+	eventIndex: number
+	scrapedAt: Date
+} | {
+	kind: 'submission'
+	// `SubmittedEvent.id`, each submission is its own source.
+	sourceId: number
+	// When the submission was approved.
+	scrapedAt: Date
+}
+
+// How the scrapes of a URL source or Instagram organizer have been going, see `/api/admin/health`.
+export interface SourceHealth {
+	kind: 'url' | 'instagram'
+	id: number
+	name: string
+	sourceType: string
+	city: string
+	storedEvents: number
+	disabled: boolean
+	lastRunAt: Date | null
+	lastSuccessAt: Date | null
+	// Failed runs since the last successful one.
+	consecutiveFailures: number
+	lastError: string | null
+	// The most recent runs, newest first.
+	history: {
+		startedAt: Date
+		finishedAt: Date
+		httpStatus: number | null
+		notModified: boolean
+		eventsFound: number
+		eventsNew: number
+		eventsUpdated: number
+		eventsCancelled: number
+		error: string | null
+	}[]
+}
+
+// The editable properties of a `UrlSource`, see `/api/admin/sources`.
+export interface UrlSourceSettings {
+	// The name of the scraper, see `UrlScraper.name`.
+	sourceType: string
+	sourceName: string
+	sourceCity: string
+	url: string
+	// Scraper-specific, e.g. the Eventbrite organizer ID.
+	sourceID?: string | null
+	disabled?: boolean
+}
+
+// The editable properties of an `InstagramEventOrganizer`.
+export interface InstagramOrganizerSettings {
+	username: string
+	name?: string | null
+	city: string
+	// Hints for the language model that extracts events from the organizer's posts, e.g. "Music".
+	contextClues: string
+	disabled?: boolean
+}
+
+// The file format of `/api/admin/sources/export`. `/api/admin/sources/import` accepts it as well as the format of
+// `server/utils/event_sources.json`.
+export interface SourceExport {
+	urlSources: UrlSourceSettings[]
+	instagramOrganizers: InstagramOrganizerSettings[]
+}
+
+// What `/api/admin/sources` returns.
+export interface SourceRegistry {
+	sourceTypes: string[]
+	urlSources: (UrlSourceSettings & { id: number, lastScraped: Date })[]
+	instagramOrganizers: (InstagramOrganizerSettings & { id: number, lastUpdated: Date })[]
+}
+
+// The fields of an event submitted on `/submit`, which moderators can edit before approving it.
+export interface EventSubmissionFields {
+	title: string
+	start: Date
+	end: Date
+	url: string
+	city: string
+	organizer: string | null
+	venueName: string | null
+	venueAddress: string | null
+	description: string | null
+}
+
+// A submitted event in the moderation queue, see `/api/admin/submissions`.
+export interface EventSubmission extends EventSubmissionFields {
+	id: number
+	status: 'pending' | 'approved' | 'rejected'
+	createdAt: Date
+	reviewedAt: Date | null
+	rejectionReason: string | null
+	images: string[]
+}
+
+// The fields of an event found in an Instagram post, which moderators can correct before publishing it.
+export interface InstagramEventFields {
+	title: string
+	start: Date
+	end: Date
+	venueName: string | null
+	venueAddress: string | null
+	price: string | null
+	ticketUrl: string | null
+	ageRestriction: string | null
+	description: string | null
+}
+
+// An event as the language model found it, whose times are null if the post didn't say them.
+export interface InstagramEventDraft extends Omit<InstagramEventFields, 'start' | 'end'> {
+	start: Date | null
+	end: Date | null
+}
+
+// An Instagram post in the review queue, see `/api/admin/instagram-reviews`.
+export interface InstagramReview {
+	postID: string
+	status: 'pending' | 'published' | 'rejected'
+	url: string
+	organizer: string
+	city: string
+	postDate: Date
+	caption: string
+	ocrText: string | null
+	images: string[]
+	// The JSON that the language model replied with, see `server/utils/instagram-result.ts`.
+	initialInference: unknown
+	repairedInference: unknown
+	confidence: number | null
+	reasons: string[]
+	// What the language model found for pending and rejected posts, and the events that were published for published
+	// ones.
+	events: InstagramEventDraft[]
+	reviewedAt: Date | null
+}
+
+// What was done to extract the events of an Instagram post, see `/api/admin/instagram-posts/[id]`.
+export interface InstagramPostHistory {
+	postID: string
+	url: string
+	organizer: string
+	caption: string
+	completedAt: Date | null
+	reviewStatus: InstagramReview['status'] | null
+	// The text of each image, null for images that OCR didn't run on.
+	images: { id: number, url: string, ocrText: string | null, ocrProvider: string | null, ocrAt: Date | null }[]
+	// Oldest first.
+	inferenceAttempts: InstagramInferenceAttemptInfo[]
+}
+
+export interface InstagramInferenceAttemptInfo {
+	id: number
+	createdAt: Date
+	pass: 'initial' | 'verification' | 'recheck'
+	provider: string
+	model: string
+	messages: { role: string, content: string }[]
+	reply: string | null
+	// What was wrong with the reply, null if it was valid.
+	issues: string[] | null
+	promptTokens: number | null
+	completionTokens: number | null
+	totalTokens: number | null
+}
+
+// The prompts and language model that an Instagram post's events were extracted with.
+export interface InstagramExtractionVersion {
+	promptVersion: number
+	model: string
+}
+
+// Which posts `/api/admin/instagram-reextractions` extracts again.
+export interface InstagramReextractionFilter {
+	username: string | null
+	postedAfter: Date | null
+	postedBefore: Date | null
+	// Only posts extracted with other prompts or another model than the current ones.
+	outdatedOnly: boolean
+	limit: number
+}
+
+// A re-extraction of Instagram posts, which changes their events once it's committed.
+export interface InstagramReextractionInfo {
+	id: number
+	createdAt: Date
+	status: 'previewed' | 'committing' | 'committed'
+	committedAt: Date | null
+	filter: InstagramReextractionFilter
+	version: InstagramExtractionVersion
+	posts: InstagramReextractionPostInfo[]
+}
+
+export interface InstagramReextractionPostInfo {
+	postID: string
+	url: string
+	organizer: string
+	postDate: Date
+	// Null for posts extracted before extractions were versioned.
+	fromVersion: InstagramExtractionVersion | null
+	// What committing does: publish the new events, queue the post for review, remove its events because the post
+	// isn't about upcoming events, or nothing because the model's replies were invalid.
+	outcome: 'publish' | 'review' | 'none' | 'failed'
+	confidence: number | null
+	reasons: string[]
+	// Only the events that would change.
+	changes: InstagramReextractionChange[]
+}
+
+// An event of a post before and after the re-extraction. `before` is null for new events, `after` for removed ones.
+export interface InstagramReextractionChange {
+	index: number
+	before: InstagramEventDraft | null
+	after: InstagramEventDraft | null
+	fields: (keyof InstagramEventDraft)[]
+}
+
+// The scraper that can scrape what an organizer entered on `/submit-source`, see `server/utils/source-detection.ts`.
+export type DetectedSource = {
+	kind: 'url'
+	sourceType: string
+	url: string
+	sourceID: string | null
+} | {
+	kind: 'instagram'
+	username: string
+}
+
+// What `/api/source-submissions/preview` found, so that organizers can check that we'd scrape their events correctly.
+export interface SourcePreview {
+	source: DetectedSource
+	// The first few upcoming events. Instagram accounts aren't scraped for previews, their posts need a language model.
+	events: { title: string, start: Date, end: Date, url: string }[]
+	eventCount: number
+}
+
+// A source that an organizer asked us to add, see `/api/admin/source-submissions`.
+export interface SourceSubmissionInfo {
+	id: number
+	status: 'pending' | 'approved' | 'rejected'
+	createdAt: Date
+	reviewedAt: Date | null
+	rejectionReason: string | null
+	source: DetectedSource
+	name: string
+	city: string
+	contact: string | null
+	notes: string | null
+	// How many events the dry-run scrape found when it was submitted.
+	previewEventCount: number
 }
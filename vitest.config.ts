@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+const root = fileURLToPath(new URL('.', import.meta.url));
+
+// The tests run the server code outside of Nuxt, so its aliases are repeated here. See `tests/setup.ts` for the rest
+// of what Nitro would otherwise provide.
+export default defineConfig({
+	resolve: {
+		alias: {
+			'~~': root,
+			'~': root,
+		},
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+		setupFiles: ['tests/setup.ts'],
+		env: {
+			LOG_LEVEL: 'silent',
+		},
+	},
+});